@@ -1,5 +1,14 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { MigrationCoordinator, runWithCoordination } from '../coordination';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Dexie from 'dexie';
+import {
+  MigrationCoordinator,
+  runWithCoordination,
+  runMigrationsWithCoordination,
+  detectContextType
+} from '../coordination';
+import { runMigrations } from '../runtime';
+import { LeaderMigrationError, LockTimeoutError, MigrationUpError } from '../errors';
+import type { Migration } from '../types';
 
 // Mock BroadcastChannel
 class MockBroadcastChannel {
@@ -49,6 +58,42 @@ class MockBroadcastChannel {
 // Install mock globally
 (global as any).BroadcastChannel = MockBroadcastChannel;
 
+// Mock Web Locks API (exclusive locks only)
+class MockLockManager {
+  private held = new Set<string>();
+  private queues = new Map<string, Array<() => void>>();
+
+  async request(name: string, options: any, callback: (lock: any) => any): Promise<any> {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) {
+        return callback(null);
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const queue = this.queues.get(name) ?? [];
+        this.queues.set(name, queue);
+        queue.push(resolve);
+        options.signal?.addEventListener('abort', () => {
+          queue.splice(queue.indexOf(resolve), 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    }
+
+    this.held.add(name);
+    try {
+      return await callback({ name, mode: 'exclusive' });
+    } finally {
+      this.held.delete(name);
+      this.queues.get(name)?.shift()?.();
+    }
+  }
+
+  isHeld(name: string): boolean {
+    return this.held.has(name);
+  }
+}
+
 describe('Multi-tab Coordination', () => {
   beforeEach(() => {
     MockBroadcastChannel.reset();
@@ -181,6 +226,139 @@ describe('Multi-tab Coordination', () => {
     });
   });
 
+  describe('Web Locks strategy', () => {
+    let locks: MockLockManager;
+
+    beforeEach(() => {
+      locks = new MockLockManager();
+      Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (navigator as any).locks;
+    });
+
+    it('should prefer Web Locks when available', () => {
+      const coordinator = new MigrationCoordinator('test-db');
+      const fallback = new MigrationCoordinator('test-db', { lockStrategy: 'broadcast-channel' });
+
+      expect(coordinator.getLockStrategy()).toBe('web-locks');
+      expect(fallback.getLockStrategy()).toBe('broadcast-channel');
+
+      coordinator.destroy();
+      fallback.destroy();
+    });
+
+    it('should give the lock to only one of two simultaneous tabs', async () => {
+      const coordinator1 = new MigrationCoordinator('test-db');
+      const coordinator2 = new MigrationCoordinator('test-db');
+
+      const [acquired1, acquired2] = await Promise.all([
+        coordinator1.acquireLock(),
+        coordinator2.acquireLock()
+      ]);
+
+      expect([acquired1, acquired2].filter(Boolean)).toHaveLength(1);
+      expect(locks.isHeld('dexie-migrate-test-db:lock')).toBe(true);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+    });
+
+    it('should hand the lock to a waiting tab when released', async () => {
+      const coordinator1 = new MigrationCoordinator('test-db');
+      const coordinator2 = new MigrationCoordinator('test-db');
+
+      await coordinator1.acquireLock();
+      const waiting = coordinator2.waitForLock(1000);
+
+      coordinator1.releaseLock();
+
+      expect(await waiting).toBe(true);
+      expect(coordinator2.hasLock()).toBe(true);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(locks.isHeld('dexie-migrate-test-db:lock')).toBe(false);
+    });
+
+    it('should stop waiting after the timeout', async () => {
+      const coordinator1 = new MigrationCoordinator('test-db');
+      const coordinator2 = new MigrationCoordinator('test-db');
+
+      await coordinator1.acquireLock();
+
+      expect(await coordinator2.waitForLock(50)).toBe(false);
+      expect(coordinator2.hasLock()).toBe(false);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+    });
+  });
+
+  describe('Heartbeat and stale locks', () => {
+    it('should answer pings so a newly opened tab sees the lock', async () => {
+      const coordinator1 = new MigrationCoordinator('test-db');
+      await coordinator1.acquireLock();
+
+      // Created after lock_acquired was broadcast
+      const coordinator2 = new MigrationCoordinator('test-db');
+      const acquired = await coordinator2.acquireLock();
+
+      expect(acquired).toBe(false);
+      expect(coordinator1.hasLock()).toBe(true);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+    });
+
+    it('should keep a lock with live heartbeats', async () => {
+      const options = { heartbeatInterval: 20, staleLockTimeout: 100 };
+      const coordinator1 = new MigrationCoordinator('test-db', options);
+      const coordinator2 = new MigrationCoordinator('test-db', options);
+
+      await coordinator1.acquireLock();
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(await coordinator2.acquireLock()).toBe(false);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+    });
+
+    it('should take over a lock whose holder stopped sending heartbeats', async () => {
+      const options = { heartbeatInterval: 20, staleLockTimeout: 100 };
+      const coordinator1 = new MigrationCoordinator('test-db', options);
+      const coordinator2 = new MigrationCoordinator('test-db', options);
+
+      await coordinator1.acquireLock();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      // Simulate a frozen tab: it still thinks it holds the lock but sends nothing
+      vi.spyOn(coordinator1 as any, 'broadcast').mockImplementation(() => {});
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const stolen = vi.fn();
+      coordinator2.on('lock_stolen', stolen);
+
+      expect(await coordinator2.acquireLock()).toBe(true);
+      expect(stolen).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'lock_stolen',
+        tabId: coordinator2.getTabId(),
+        previousTabId: coordinator1.getTabId()
+      }));
+
+      // The old holder gives up the lock once it hears about the takeover
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(coordinator1.hasLock()).toBe(false);
+
+      coordinator1.destroy();
+      coordinator2.destroy();
+    });
+  });
+
   describe('runWithCoordination', () => {
     it('should run migration function with coordination', async () => {
       const mockMigration = vi.fn().mockResolvedValue({ success: true });
@@ -199,7 +377,7 @@ describe('Multi-tab Coordination', () => {
       
       await expect(
         runWithCoordination('test-db', mockMigration, { lockTimeout: 100 })
-      ).rejects.toThrow('Failed to acquire migration lock');
+      ).rejects.toThrow(LockTimeoutError);
       
       expect(mockMigration).not.toHaveBeenCalled();
       
@@ -236,4 +414,165 @@ describe('Multi-tab Coordination', () => {
       coordinator.destroy();
     });
   });
+  describe('Follower tabs', () => {
+    const migrations: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: '++id, email' } }
+    ];
+
+    beforeEach(async () => {
+      await Dexie.delete('coord-db');
+    });
+
+    it('should reuse the leader result instead of running again', async () => {
+      const leader = new MigrationCoordinator('test-db');
+      await leader.acquireLock();
+
+      const migrationFn = vi.fn().mockResolvedValue('opened');
+      const following = runWithCoordination('test-db', migrationFn);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      leader.notifyMigrationCompleted();
+
+      await expect(following).resolves.toBe('opened');
+      expect(migrationFn).toHaveBeenCalledWith({
+        ranBy: 'other-tab',
+        leaderTabId: leader.getTabId()
+      });
+
+      leader.destroy();
+    });
+
+    it('should surface the leader failure', async () => {
+      const leader = new MigrationCoordinator('test-db');
+      await leader.acquireLock();
+
+      const migrationFn = vi.fn();
+      const following = runWithCoordination('test-db', migrationFn);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      leader.notifyMigrationFailed(new MigrationUpError(migrations[0], 'up', new Error('boom')));
+
+      await expect(following).rejects.toBeInstanceOf(LeaderMigrationError);
+      await expect(following).rejects.toMatchObject({
+        leaderTabId: leader.getTabId(),
+        leaderErrorName: 'MigrationUpError',
+        phase: 'up',
+        migrationId: 1,
+        message: expect.stringContaining('boom')
+      });
+      expect(migrationFn).not.toHaveBeenCalled();
+
+      leader.destroy();
+    });
+
+    it('should mark results of the leader tab as ranBy this-tab', async () => {
+      const result = await runMigrationsWithCoordination('coord-db', migrations);
+
+      expect(result.ranBy).toBe('this-tab');
+      expect(result.leaderTabId).toBeDefined();
+      expect(result.appliedMigrations).toEqual([1]);
+
+      result.db.close();
+    });
+
+    it('should open the database migrated by the leader', async () => {
+      const leader = new MigrationCoordinator('coord-db');
+      await leader.acquireLock();
+
+      const following = runMigrationsWithCoordination('coord-db', migrations);
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      const leaderResult = await runMigrations('coord-db', migrations);
+      leader.notifyMigrationCompleted();
+
+      const result = await following;
+      expect(result.ranBy).toBe('other-tab');
+      expect(result.leaderTabId).toBe(leader.getTabId());
+      expect(result.appliedMigrations).toEqual([]);
+      expect(result.skippedMigrations).toEqual([1]);
+
+      result.db.close();
+      leaderResult.db.close();
+      leader.destroy();
+    });
+  });
+
+  describe('Worker contexts', () => {
+    const migrations: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: '++id, email' } }
+    ];
+    const windowsOnly = { contextType: 'service-worker' as const, leaderContexts: ['window' as const] };
+
+    beforeEach(async () => {
+      await Dexie.delete('coord-db');
+    });
+
+    it('should detect the window context', () => {
+      expect(detectContextType()).toBe('window');
+    });
+
+    it('should include the sender context in every message', async () => {
+      const worker = new MigrationCoordinator('test-db', { contextType: 'dedicated-worker' });
+      const page = new MigrationCoordinator('test-db');
+
+      const received = vi.fn();
+      page.on('lock_acquired', received);
+      page.on('migration_started', received);
+
+      await worker.acquireLock();
+      worker.notifyMigrationStarted();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(worker.getTabId()).toMatch(/^worker-/);
+      expect(received).toHaveBeenCalledTimes(2);
+      for (const [msg] of received.mock.calls) {
+        expect(msg.context).toBe('dedicated-worker');
+      }
+
+      worker.destroy();
+      page.destroy();
+    });
+
+    it('should not let excluded contexts take the lock', async () => {
+      const migrationFn = vi.fn();
+
+      await expect(
+        runWithCoordination('test-db', migrationFn, { ...windowsOnly, lockTimeout: 200 })
+      ).rejects.toThrow(LockTimeoutError);
+
+      expect(migrationFn).not.toHaveBeenCalled();
+    });
+
+    it('should make excluded contexts wait for a window leader', async () => {
+      const page = new MigrationCoordinator('coord-db');
+      await page.acquireLock();
+
+      const following = runMigrationsWithCoordination('coord-db', migrations, { coordination: windowsOnly });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const leaderResult = await runMigrations('coord-db', migrations);
+      page.notifyMigrationCompleted();
+
+      const result = await following;
+      expect(result.ranBy).toBe('other-tab');
+      expect(result.leaderTabId).toBe(page.getTabId());
+
+      result.db.close();
+      leaderResult.db.close();
+      page.destroy();
+    });
+
+    it('should let excluded contexts open an already migrated database', async () => {
+      const initial = await runMigrations('coord-db', migrations);
+      initial.db.close();
+
+      const result = await runMigrationsWithCoordination('coord-db', migrations, { coordination: windowsOnly });
+
+      expect(result.ranBy).toBe('other-tab');
+      expect(result.leaderTabId).toBeUndefined();
+      expect(result.skippedMigrations).toEqual([1]);
+
+      result.db.close();
+    });
+  });
 });
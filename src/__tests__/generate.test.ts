@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { diffSchema, generateMigration, generateMigrationFile } from '../generate';
+import type { Migration } from '../types';
+
+describe('diffSchema', () => {
+  it('should list added, changed and removed tables', () => {
+    const changes = diffSchema(
+      { users: '++id, email', posts: '++id', legacy: 'id' },
+      { users: '++id, email, name', posts: '++id', tags: '++id, &label' }
+    );
+
+    expect(changes).toEqual([
+      { table: 'users', type: 'changed', from: '++id, email', to: '++id, email, name' },
+      { table: 'tags', type: 'added', to: '++id, &label' },
+      { table: 'legacy', type: 'removed', from: 'id' }
+    ]);
+  });
+
+  it('should ignore index order and whitespace', () => {
+    expect(diffSchema({ users: '++id, email, name' }, { users: '++id,name,  email' })).toEqual([]);
+  });
+
+  it('should treat changed modifiers as a change', () => {
+    expect(diffSchema({ users: '++id, email' }, { users: '++id, &email' })).toMatchObject([
+      { table: 'users', type: 'changed' }
+    ]);
+  });
+});
+
+describe('generateMigration', () => {
+  const migrations: Migration[] = [
+    { id: 1, name: 'initial', stores: { users: '++id, email', legacy: 'id' } },
+    { id: 2, name: 'add_posts', stores: { posts: '++id, userId' } }
+  ];
+
+  it('should build the next migration with only the changes', () => {
+    const generated = generateMigration(
+      migrations,
+      { users: '++id, email, name', posts: '++id, userId' },
+      'add_user_name'
+    );
+
+    expect(generated.migration).toEqual({
+      id: 3,
+      name: 'add_user_name',
+      stores: { users: '++id, email, name', legacy: null }
+    });
+    expect(generated.lint).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should return no changes when the schema matches', () => {
+    const generated = generateMigration(
+      migrations,
+      { users: '++id, email', posts: '++id, userId', legacy: 'id' },
+      'noop'
+    );
+
+    expect(generated.changes).toEqual([]);
+    expect(generated.migration.stores).toEqual({});
+  });
+
+  it('should flag primary key changes as needing a data migration', () => {
+    const generated = generateMigration(
+      migrations,
+      { users: 'uid, email', posts: '++id, userId', legacy: 'id' },
+      'user_uid'
+    );
+
+    expect(generated.lint.valid).toBe(false);
+    expect(generated.lint.errors).toMatchObject([{ rule: 'primary-key-change', migrationId: 3, table: 'users' }]);
+  });
+
+  it('should reject malformed schemas', () => {
+    expect(() => generateMigration(migrations, { users: '++id, [email+name' }, 'broken')).toThrow(
+      "Invalid compound index '[email+name'"
+    );
+  });
+});
+
+describe('generateMigrationFile', () => {
+  it('should write the stores and annotate flagged tables', () => {
+    const generated = generateMigration(
+      [{ id: 1, name: 'initial', stores: { users: '++id, email', legacy: 'id' } }],
+      { users: 'uid, email' },
+      'user_uid'
+    );
+
+    const content = generateMigrationFile(generated);
+
+    expect(content).toContain('id: 2,');
+    expect(content).toContain("name: 'user_uid',");
+    expect(content).toContain("    // TODO: primary key changes from '++id' to 'uid'");
+    expect(content).toContain("    users: 'uid, email',\n    legacy: null\n");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { lintMigrations, formatLintReport } from '../lint';
+import type { Migration } from '../types';
+
+describe('lintMigrations', () => {
+  const initial: Migration = {
+    id: 1,
+    name: 'initial',
+    stores: { users: '++id, email', legacy: 'id' }
+  };
+
+  it('should pass valid migrations', () => {
+    const result = lintMigrations([
+      initial,
+      { id: 2, name: 'add_posts', stores: { posts: '++id, userId, [userId+createdAt], *tags', legacy: null } }
+    ]);
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    expect(formatLintReport(result)).toBe('✓ No problems found');
+  });
+
+  it('should report primary key changes', () => {
+    const result = lintMigrations([
+      { id: 2, name: 'user_uid', stores: { users: 'uid, email' } },
+      initial
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{
+      rule: 'primary-key-change',
+      migrationId: 2,
+      migrationName: 'user_uid',
+      table: 'users',
+      message: expect.stringContaining("primary key changes from '++id' to 'uid'")
+    }]);
+    expect(result.errors[0].message).toContain('Change a Primary Key');
+  });
+
+  it('should allow a new primary key after the table was deleted', () => {
+    const result = lintMigrations([
+      initial,
+      { id: 2, name: 'drop_users', stores: { users: null } },
+      { id: 3, name: 'recreate_users', stores: { users: 'uid, email' } }
+    ]);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report duplicate and malformed indexes', () => {
+    const result = lintMigrations([
+      {
+        id: 1,
+        name: 'initial',
+        stores: {
+          users: '++id, email, &email, id',
+          events: '++id, [userId+createdAt',
+          tags: '++id, *[a+b]'
+        }
+      }
+    ]);
+
+    expect(result.errors.map(e => [e.rule, e.table, e.message])).toEqual([
+      ['duplicate-index', 'users', "index 'email' is declared more than once"],
+      ['duplicate-index', 'users', "index 'id' is declared more than once"],
+      ['invalid-schema', 'events', "Invalid compound index '[userId+createdAt'"],
+      ['invalid-schema', 'tags', "compound index '[a+b]' can't be multi-entry"]
+    ]);
+  });
+
+  it('should reject the migrations table', () => {
+    const result = lintMigrations([
+      { id: 1, name: 'initial', stores: { _dexie_migrations: 'id' } }
+    ]);
+
+    expect(result.errors).toMatchObject([{ rule: 'reserved-table', table: '_dexie_migrations' }]);
+  });
+
+  it('should warn about unique indexes on existing tables', () => {
+    const result = lintMigrations([
+      initial,
+      { id: 2, name: 'unique_email', stores: { users: '++id, &email', accounts: '++id, &login' } }
+    ]);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toMatchObject([
+      { rule: 'unique-index-on-existing-table', migrationId: 2, table: 'users' }
+    ]);
+  });
+
+  it('should warn about deleting unknown tables', () => {
+    const result = lintMigrations([
+      initial,
+      { id: 2, name: 'cleanup', stores: { legacy: null, archive: null } }
+    ]);
+
+    expect(result.warnings).toMatchObject([{ rule: 'delete-unknown-table', table: 'archive' }]);
+  });
+
+  it('should format the report grouped by migration', () => {
+    const result = lintMigrations([
+      initial,
+      { id: 2, name: 'unique_email', stores: { users: '++id, &email' } },
+      { id: 3, name: 'user_uid', stores: { users: 'uid, &email' } }
+    ]);
+    const text = formatLintReport(result);
+
+    expect(text).toContain("⚠ 2 unique_email\n    warning: users: unique index 'email'");
+    expect(text).toContain("✗ 3 user_uid\n    error: users: primary key changes from '++id' to 'uid'");
+    expect(text).toContain('✗ 1 error(s), 1 warning(s)');
+  });
+});
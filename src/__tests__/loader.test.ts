@@ -0,0 +1,118 @@
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findMigrationFiles, loadMigrations, loadSchemaFile } from '../loader';
+import { InvalidMigrationDefinitionError } from '../errors';
+
+describe('loadMigrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // Inside the project, since Vitest only imports files under its root
+    dir = fs.mkdtempSync(path.join(process.cwd(), '.tmp-loader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should import migration modules in filename order', async () => {
+    fs.writeFileSync(
+      path.join(dir, '0002_add_posts.mjs'),
+      "export default { id: 2, name: 'add_posts', stores: { posts: '++id' } };"
+    );
+    fs.writeFileSync(
+      path.join(dir, '0001_initial.js'),
+      "module.exports = { id: 1, name: 'initial', stores: { users: '++id, email' } };"
+    );
+    fs.writeFileSync(path.join(dir, 'README.md'), '# not a migration');
+
+    const loaded = await loadMigrations(dir);
+
+    expect(loaded.map(l => l.file)).toEqual(['0001_initial.js', '0002_add_posts.mjs']);
+    expect(loaded[0].migration.stores).toEqual({ users: '++id, email' });
+    expect(loaded[1].migration.name).toBe('add_posts');
+  });
+
+  it('should compile TypeScript migrations and their local imports', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'tables.ts'),
+      "export const USERS: string = '++id, email';"
+    );
+    fs.writeFileSync(
+      path.join(dir, '0001_initial.ts'),
+      [
+        "import type { Migration } from '@dexie-kit/migrate';",
+        "import { USERS } from './tables';",
+        '',
+        "const migration: Migration = { id: 1, name: 'initial', stores: { users: USERS } };",
+        'export default migration;'
+      ].join('\n')
+    );
+
+    const loaded = await loadMigrations(dir);
+
+    expect(loaded.map(l => l.file)).toEqual(['0001_initial.ts']);
+    expect(loaded[0].migration.stores).toEqual({ users: '++id, email' });
+    // The compiled module is removed after importing
+    expect(fs.readdirSync(dir).sort()).toEqual(['0001_initial.ts', 'tables.ts']);
+  });
+
+  it('should accept a named migration export', async () => {
+    fs.writeFileSync(
+      path.join(dir, '0001_initial.mjs'),
+      "export const migration = { id: 1, name: 'initial' };"
+    );
+
+    const loaded = await loadMigrations(dir);
+
+    expect(loaded[0].migration.id).toBe(1);
+  });
+
+  it('should reject files without a migration export', async () => {
+    fs.writeFileSync(path.join(dir, '0001_empty.mjs'), 'export const other = 1;');
+
+    await expect(loadMigrations(dir)).rejects.toThrow(InvalidMigrationDefinitionError);
+    await expect(loadMigrations(dir)).rejects.toThrow('0001_empty.mjs does not export a migration');
+  });
+
+  it('should return no files for a missing directory', () => {
+    expect(findMigrationFiles(path.join(dir, 'missing'))).toEqual([]);
+  });
+});
+
+describe('loadSchemaFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(process.cwd(), '.tmp-loader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should import the desired stores from a TypeScript file', async () => {
+    const file = path.join(dir, 'schema.ts');
+    fs.writeFileSync(
+      file,
+      [
+        "import type { StoresMap } from '@dexie-kit/migrate';",
+        '',
+        "const schema: StoresMap = { users: '++id, email', posts: '++id, userId' };",
+        'export default schema;'
+      ].join('\n')
+    );
+
+    expect(await loadSchemaFile(file)).toEqual({ users: '++id, email', posts: '++id, userId' });
+  });
+
+  it('should reject files without a stores map', async () => {
+    const file = path.join(dir, 'schema.mjs');
+    fs.writeFileSync(file, 'export default { users: 42 };');
+
+    await expect(loadSchemaFile(file)).rejects.toThrow('schema.mjs does not export a schema');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Dexie from 'dexie';
+import { runMigrations } from '../runtime';
+import { rollbackMigrations } from '../rollback';
+import { RollbackError } from '../errors';
+import type { Migration } from '../types';
+
+describe('rollbackMigrations', () => {
+  const initial: Migration = {
+    id: 1,
+    name: 'initial',
+    stores: { users: '++id, email' }
+  };
+
+  const addDisplayName: Migration = {
+    id: 2,
+    name: 'add_display_name',
+    stores: { users: '++id, email, displayName' },
+    up: async (tx) => {
+      await tx.table('users').toCollection().modify(user => {
+        user.displayName = `${user.first} ${user.last}`;
+      });
+    },
+    down: async (tx) => {
+      await tx.table('users').toCollection().modify(user => {
+        delete user.displayName;
+      });
+    }
+  };
+
+  const addSettings: Migration = {
+    id: 3,
+    name: 'add_settings',
+    stores: { prefs: '' }
+  };
+
+  beforeEach(async () => {
+    await Dexie.delete('test-db');
+  });
+
+  async function seed(): Promise<void> {
+    const { db } = await runMigrations('test-db', [initial]);
+    await db.table('users').bulkAdd([
+      { email: 'ada@example.com', first: 'Ada', last: 'Lovelace' },
+      { email: 'alan@example.com', first: 'Alan', last: 'Turing' }
+    ]);
+    db.close();
+  }
+
+  it('should run down() and restore the previous schema', async () => {
+    await seed();
+    const { db } = await runMigrations('test-db', [initial, addDisplayName]);
+    db.close();
+
+    const result = await rollbackMigrations('test-db', [initial, addDisplayName], { to: 1 });
+
+    expect(result.rolledBackMigrations).toEqual([2]);
+    expect(result.finalVersion).toBe(1);
+
+    const rolledBack = new Dexie('test-db');
+    await rolledBack.open();
+    expect(rolledBack.verno).toBe(1);
+    expect(rolledBack.table('users').schema.indexes.map(i => i.name)).toEqual(['email']);
+
+    const users = await rolledBack.table('users').toArray();
+    expect(users).toHaveLength(2);
+    expect(users[0]).not.toHaveProperty('displayName');
+
+    const records = await rolledBack.table('_dexie_migrations').toArray();
+    expect(records.map(r => r.id)).toEqual([1]);
+    rolledBack.close();
+  });
+
+  it('should round-trip up, down and up without losing data', async () => {
+    await seed();
+    const migrations = [initial, addDisplayName];
+
+    const first = await runMigrations('test-db', migrations);
+    const before = await first.db.table('users').toArray();
+    first.db.close();
+
+    await rollbackMigrations('test-db', migrations, { to: 1 });
+
+    const second = await runMigrations('test-db', migrations);
+    expect(second.appliedMigrations).toEqual([2]);
+    expect(await second.db.table('users').toArray()).toEqual(before);
+    second.db.close();
+  });
+
+  it('should roll back several migrations in reverse order', async () => {
+    await seed();
+    const migrations = [initial, addDisplayName, addSettings];
+    const { db } = await runMigrations('test-db', migrations);
+    await db.table('prefs').add({ theme: 'dark' }, 'ui');
+    db.close();
+
+    const result = await rollbackMigrations('test-db', migrations, { to: 1 });
+
+    expect(result.rolledBackMigrations).toEqual([3, 2]);
+
+    const rolledBack = new Dexie('test-db');
+    await rolledBack.open();
+    expect(rolledBack.tables.map(t => t.name).sort()).toEqual(['_dexie_migrations', 'users']);
+    rolledBack.close();
+  });
+
+  it('should delete the database when rolling back to 0', async () => {
+    await seed();
+    const { db } = await runMigrations('test-db', [initial, addDisplayName]);
+    db.close();
+
+    const result = await rollbackMigrations('test-db', [initial, addDisplayName], { to: 0 });
+
+    expect(result.rolledBackMigrations).toEqual([2, 1]);
+    expect(result.finalVersion).toBe(0);
+    expect(await Dexie.exists('test-db')).toBe(false);
+  });
+
+  it('should refuse to roll back a data migration without down()', async () => {
+    const withoutDown: Migration = { ...addDisplayName, down: undefined };
+    const { db } = await runMigrations('test-db', [initial, withoutDown]);
+    db.close();
+
+    await expect(
+      rollbackMigrations('test-db', [initial, withoutDown], { to: 1 })
+    ).rejects.toThrow(RollbackError);
+
+    // Nothing was rolled back
+    const { appliedMigrations, skippedMigrations, db: reopened } =
+      await runMigrations('test-db', [initial, withoutDown]);
+    expect(appliedMigrations).toEqual([]);
+    expect(skippedMigrations).toEqual([1, 2]);
+    reopened.close();
+  });
+
+  it('should wrap down() failures in RollbackError', async () => {
+    const failing: Migration = {
+      ...addDisplayName,
+      down: async () => {
+        throw new Error('boom');
+      }
+    };
+    const { db } = await runMigrations('test-db', [initial, failing]);
+    db.close();
+
+    const error = await rollbackMigrations('test-db', [initial, failing], { to: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RollbackError);
+    expect(error.phase).toBe('down');
+    expect(error.migrationId).toBe(2);
+    expect((error.cause as Error).message).toBe('boom');
+  });
+
+  it('should drop the records of IDs a rolled back squashed migration replaced', async () => {
+    const base: Migration = {
+      id: 3,
+      name: 'base',
+      stores: { users: '++id, email, displayName', prefs: '' },
+      replaces: [2, 3]
+    };
+    const { db } = await runMigrations('test-db', [initial, base]);
+    expect(await db.table('_dexie_migrations').toCollection().primaryKeys()).toEqual([1, 2, 3]);
+    db.close();
+
+    await rollbackMigrations('test-db', [initial, base], { to: 1 });
+
+    const rolledBack = new Dexie('test-db');
+    await rolledBack.open();
+    const records = await rolledBack.table('_dexie_migrations').toArray();
+    expect(records.map(r => r.id)).toEqual([1]);
+    rolledBack.close();
+
+    const again = await runMigrations('test-db', [initial, base]);
+    expect(again.appliedMigrations).toEqual([3]);
+    again.db.close();
+  });
+
+  it('should reject an unknown target', async () => {
+    await expect(
+      rollbackMigrations('test-db', [initial], { to: 7 })
+    ).rejects.toThrow('no migration has that ID');
+  });
+});
@@ -1,6 +1,18 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import Dexie from 'dexie';
 import { runMigrations } from '../runtime';
+import { computeMigrationChecksum } from '../checksum';
+import {
+  ChecksumMismatchError,
+  DuplicateMigrationIdError,
+  InvalidMigrationDefinitionError,
+  MigrationUpError,
+  MigrationValidationError,
+  MigrationTimeoutError,
+  PartialSquashError,
+  UpgradeBlockedError,
+  VersionMismatchError
+} from '../errors';
 import type { Migration } from '../types';
 
 describe('runMigrations', () => {
@@ -115,6 +127,38 @@ describe('runMigrations', () => {
     await result.db.close();
   });
 
+  it('should run up() on a fresh install when a later migration drops the table it reads', async () => {
+    const migrations: Migration[] = [
+      {
+        id: 1,
+        name: 'initial',
+        stores: { users: '++id, email' },
+        async up(tx) {
+          await tx.table('users').add({ email: 'test@example.com' });
+        }
+      },
+      {
+        id: 2,
+        name: 'users_to_people',
+        stores: { people: 'uuid, email', users: null },
+        async up(tx) {
+          const users = await tx.table('users').toArray();
+          await tx.table('people').bulkAdd(users.map(u => ({ uuid: `user-${u.id}`, email: u.email })));
+        }
+      }
+    ];
+
+    const result = await runMigrations('test-db', migrations);
+
+    expect(result.appliedMigrations).toEqual([1, 2]);
+    expect(result.db.tables.map((t: any) => t.name)).not.toContain('users');
+    expect(await result.db.table('people').toArray()).toEqual([
+      { uuid: 'user-1', email: 'test@example.com' }
+    ]);
+
+    await result.db.close();
+  });
+
   it('should validate migrations array', async () => {
     await expect(
       runMigrations('test-db', null as any)
@@ -134,6 +178,11 @@ describe('runMigrations', () => {
     await expect(
       runMigrations('test-db', migrations)
     ).rejects.toThrow('Duplicate migration IDs detected');
+
+    const error = await runMigrations('test-db', migrations).catch(err => err);
+    expect(error).toBeInstanceOf(DuplicateMigrationIdError);
+    expect(error.duplicateIds).toEqual([1]);
+    expect(error.phase).toBe('definition');
   });
 
   it('should support dry run mode', async () => {
@@ -169,4 +218,624 @@ describe('runMigrations', () => {
     
     await result.db.close();
   });
+
+  describe('batch migrations', () => {
+    const seed: Migration = {
+      id: 1,
+      name: 'initial',
+      stores: {
+        users: 'id, email'
+      },
+      async up(tx) {
+        const users = Array.from({ length: 25 }, (_, i) => ({ id: i + 1, email: `user${i + 1}@example.com` }));
+        await tx.table('users').bulkAdd(users);
+      }
+    };
+
+    it('should process every row in batches', async () => {
+      const batchSizes: number[] = [];
+      const backfill: Migration = {
+        id: 2,
+        name: 'backfill_active',
+        batch: {
+          table: 'users',
+          size: 10,
+          async process(rows, tx) {
+            batchSizes.push(rows.length);
+            await tx.table('users').bulkPut(rows.map(u => ({ ...u, active: true })));
+          }
+        }
+      };
+
+      const result = await runMigrations('test-db', [seed, backfill]);
+
+      expect(batchSizes).toEqual([10, 10, 5]);
+      expect(await result.db.users.filter((u: any) => u.active).count()).toBe(25);
+
+      const record = await result.db._dexie_migrations.get(2);
+      expect(record.status).toBe('completed');
+      expect(record.processed).toBe(25);
+
+      await result.db.close();
+    });
+
+    it('should resume from the last checkpoint after a failure', async () => {
+      const processedIds: number[] = [];
+      let failOnSecondBatch = true;
+      let batchCount = 0;
+
+      const backfill: Migration = {
+        id: 2,
+        name: 'backfill_active',
+        batch: {
+          table: 'users',
+          size: 10,
+          async process(rows, tx, keys) {
+            batchCount++;
+            if (failOnSecondBatch && batchCount === 2) {
+              throw new Error('Simulated crash');
+            }
+            processedIds.push(...(keys as number[]));
+            await tx.table('users').bulkPut(rows.map(u => ({ ...u, active: true })));
+          }
+        }
+      };
+
+      await expect(
+        runMigrations('test-db', [seed, backfill])
+      ).rejects.toThrow('Simulated crash');
+
+      expect(processedIds).toHaveLength(10);
+
+      failOnSecondBatch = false;
+      const result = await runMigrations('test-db', [seed, backfill]);
+
+      expect(result.appliedMigrations).toEqual([2]);
+      expect(result.skippedMigrations).toEqual([1]);
+      expect(processedIds).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+
+      const record = await result.db._dexie_migrations.get(2);
+      expect(record.status).toBe('completed');
+      expect(record.checkpoint).toBe(25);
+
+      await result.db.close();
+    });
+
+    it('should run validateAfter once the last batch is done', async () => {
+      const backfill: Migration = {
+        id: 2,
+        name: 'backfill_active',
+        batch: {
+          table: 'users',
+          size: 10,
+          async process(rows, tx) {
+            await tx.table('users').bulkPut(rows.map(u => ({ ...u, active: true })));
+          }
+        },
+        async validateAfter(tx) {
+          const inactive = await tx.table('users').filter(u => !u.active).count();
+          return inactive === 0;
+        }
+      };
+
+      const result = await runMigrations('test-db', [seed, backfill]);
+
+      expect(result.appliedMigrations).toEqual([1, 2]);
+
+      await result.db.close();
+    });
+  });
+
+  describe('background migrations', () => {
+    const seed: Migration = {
+      id: 1,
+      name: 'initial',
+      stores: {
+        users: 'id, email'
+      },
+      async up(tx) {
+        const users = Array.from({ length: 25 }, (_, i) => ({ id: i + 1, email: `user${i + 1}@example.com` }));
+        await tx.table('users').bulkAdd(users);
+      }
+    };
+
+    const backfill: Migration = {
+      id: 2,
+      name: 'backfill_active',
+      background: true,
+      batch: {
+        table: 'users',
+        size: 10,
+        async process(rows, tx) {
+          await tx.table('users').bulkPut(rows.map(u => ({ ...u, active: true })));
+        }
+      }
+    };
+
+    it('should return before background migrations finish', async () => {
+      const completed: number[] = [];
+
+      const result = await runMigrations('test-db', [seed, backfill], {
+        backgroundInterval: 5,
+        onBackgroundComplete: (migration) => completed.push(migration.id)
+      });
+
+      expect(result.pendingBackgroundMigrations).toEqual([2]);
+      expect(await result.db.users.count()).toBe(25);
+
+      await result.backgroundComplete;
+
+      expect(result.pendingBackgroundMigrations).toEqual([]);
+      expect(completed).toEqual([2]);
+      expect(await result.db.users.filter((u: any) => u.active).count()).toBe(25);
+
+      const record = await result.db._dexie_migrations.get(2);
+      expect(record.status).toBe('completed');
+
+      await result.db.close();
+    });
+
+    it('should pause when the database closes and resume on the next run', async () => {
+      const first = await runMigrations('test-db', [seed, backfill], {
+        backgroundInterval: 5,
+        onBatchProgress: () => first.db.close()
+      });
+
+      await first.backgroundComplete;
+      expect(first.pendingBackgroundMigrations).toEqual([2]);
+
+      const second = await runMigrations('test-db', [seed, backfill], { backgroundInterval: 5 });
+
+      expect(second.appliedMigrations).toEqual([2]);
+      await second.backgroundComplete;
+
+      const record = await second.db._dexie_migrations.get(2);
+      expect(record.status).toBe('completed');
+      expect(record.processed).toBe(25);
+
+      await second.db.close();
+    });
+
+    it('should reject background migrations without a batch step', async () => {
+      await expect(
+        runMigrations('test-db', [{ id: 1, name: 'initial', background: true }])
+      ).rejects.toThrow('marked as background but has no batch step');
+    });
+  });
+
+  describe('timeouts', () => {
+    const initial: Migration = {
+      id: 1,
+      name: 'initial',
+      stores: {
+        users: 'id, email'
+      }
+    };
+
+    it('should abort a migration that exceeds its timeout', async () => {
+      const first = await runMigrations('test-db', [initial]);
+      await first.db.close();
+
+      const hanging: Migration = {
+        id: 2,
+        name: 'hanging',
+        stores: {
+          posts: 'id, userId'
+        },
+        timeout: 50,
+        up: () => new Promise(() => {})
+      };
+
+      const errors: Error[] = [];
+      const error = await runMigrations('test-db', [initial, hanging], {
+        onError: (_, err) => errors.push(err)
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(MigrationTimeoutError);
+      expect(error.migrationId).toBe(2);
+      expect(error.migrationName).toBe('hanging');
+      expect(error.elapsed).toBeGreaterThanOrEqual(50);
+      expect(errors).toEqual([error]);
+
+      // The upgrade was rolled back, so the migration is retried cleanly
+      const retry = await runMigrations('test-db', [initial, { ...hanging, up: undefined }]);
+
+      expect(retry.appliedMigrations).toEqual([2]);
+      expect(retry.skippedMigrations).toEqual([1]);
+      expect(retry.db.tables.map((t: any) => t.name)).toContain('posts');
+
+      await retry.db.close();
+    });
+
+    it('should keep the upgrade transaction open while up() awaits other work', async () => {
+      const migration: Migration = {
+        ...initial,
+        async up(tx) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          await tx.table('users').add({ id: 1, email: 'test@example.com' });
+        }
+      };
+
+      const result = await runMigrations('test-db', [migration]);
+
+      expect(await result.db.users.count()).toBe(1);
+
+      await result.db.close();
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw InvalidMigrationDefinitionError for malformed migrations', async () => {
+      const error = await runMigrations('test-db', [{ id: 1, name: '' }]).catch(err => err);
+
+      expect(error).toBeInstanceOf(InvalidMigrationDefinitionError);
+      expect(error.migrationId).toBe(1);
+      expect(error.index).toBe(0);
+      expect(error.recovery.length).toBeGreaterThan(0);
+    });
+
+    it('should wrap up() failures in MigrationUpError', async () => {
+      const cause = new Error('boom');
+      const errors: Error[] = [];
+      const migration: Migration = {
+        id: 1,
+        name: 'initial',
+        stores: { users: 'id' },
+        async up() {
+          throw cause;
+        }
+      };
+
+      const error = await runMigrations('test-db', [migration], {
+        onError: (_, err) => errors.push(err)
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(MigrationUpError);
+      expect(error.name).toBe('MigrationUpError');
+      expect(error.message).toContain('boom');
+      expect(error.migrationId).toBe(1);
+      expect(error.migrationName).toBe('initial');
+      expect(error.phase).toBe('up');
+      expect(error.cause).toBe(cause);
+      expect(errors).toEqual([error]);
+    });
+
+    it('should throw MigrationValidationError when validateAfter() fails', async () => {
+      const migration: Migration = {
+        id: 1,
+        name: 'initial',
+        stores: { users: 'id' },
+        validateAfter: async () => false
+      };
+
+      const error = await runMigrations('test-db', [migration]).catch(err => err);
+
+      expect(error).toBeInstanceOf(MigrationValidationError);
+      expect(error.message).toBe('Migration 1 validation failed');
+      expect(error.phase).toBe('validateAfter');
+    });
+  });
+
+  describe('versioning', () => {
+    it('should derive the database version from migration IDs', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: 'id' } },
+        { id: 5, name: 'add_posts', stores: { posts: 'id' } },
+        { id: 10, name: 'add_tags', stores: { tags: 'id' } }
+      ];
+
+      const result = await runMigrations('test-db', migrations);
+
+      expect(result.finalVersion).toBe(10);
+      expect(result.db.verno).toBe(10);
+
+      await result.db.close();
+    });
+
+    it('should keep versions stable when an applied migration is removed', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: 'id' } },
+        { id: 2, name: 'add_posts', stores: { posts: 'id' } },
+        { id: 3, name: 'add_tags', stores: { tags: 'id' } }
+      ];
+
+      const first = await runMigrations('test-db', migrations);
+      await first.db.close();
+
+      const second = await runMigrations('test-db', [
+        migrations[0],
+        migrations[2],
+        { id: 4, name: 'add_comments', stores: { comments: 'id' } }
+      ]);
+
+      expect(second.appliedMigrations).toEqual([4]);
+      expect(second.db.verno).toBe(4);
+
+      await second.db.close();
+    });
+
+    it('should throw VersionMismatchError when the database is newer than the migrations', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: 'id' } },
+        { id: 2, name: 'add_posts', stores: { posts: 'id' } }
+      ];
+
+      const result = await runMigrations('test-db', migrations);
+      await result.db.close();
+
+      const error = await runMigrations('test-db', [migrations[0]]).catch(err => err);
+
+      expect(error).toBeInstanceOf(VersionMismatchError);
+      expect(error.installedVersion).toBe(2);
+      expect(error.expectedVersion).toBe(1);
+      expect(error.recovery.length).toBeGreaterThan(0);
+    });
+
+    it('should reject unapplied migrations below the installed version', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: 'id' } },
+        { id: 3, name: 'add_tags', stores: { tags: 'id' } }
+      ];
+
+      const result = await runMigrations('test-db', migrations);
+      await result.db.close();
+
+      const error = await runMigrations('test-db', [
+        migrations[0],
+        { id: 2, name: 'add_posts', stores: { posts: 'id' } },
+        migrations[1]
+      ]).catch(err => err);
+
+      expect(error).toBeInstanceOf(InvalidMigrationDefinitionError);
+      expect(error.migrationId).toBe(2);
+      expect(error.message).toContain('already at version 3');
+    });
+  });
+
+  describe('checksums', () => {
+    const initial: Migration = {
+      id: 1,
+      name: 'initial',
+      stores: { users: 'id, email' },
+      async up(tx) {
+        await tx.table('users').add({ id: 1, email: 'test@example.com' });
+      }
+    };
+    const edited: Migration = { ...initial, stores: { users: 'id, email, name' } };
+
+    it('should record a checksum for applied migrations', async () => {
+      const result = await runMigrations('test-db', [initial]);
+
+      const record = await result.db._dexie_migrations.get(1);
+      expect(record.checksum).toBe(computeMigrationChecksum(initial));
+
+      await result.db.close();
+    });
+
+    it('should ignore formatting and table order in the checksum', () => {
+      const a: Migration = { id: 1, name: 'a', stores: { users: 'id,email', posts: 'id' } };
+      const b: Migration = { id: 1, name: 'b', stores: { posts: 'id', users: 'id, email' } };
+
+      expect(computeMigrationChecksum(a)).toBe(computeMigrationChecksum(b));
+      expect(computeMigrationChecksum(a)).not.toBe(computeMigrationChecksum(edited));
+    });
+
+    it('should leave function source out of the checksum unless asked', () => {
+      const rewritten: Migration = {
+        ...initial,
+        up: async (tx) => {
+          await tx.table('users').put({ id: 1, email: 'test@example.com' });
+        }
+      };
+
+      expect(computeMigrationChecksum(rewritten)).toBe(computeMigrationChecksum(initial));
+      expect(computeMigrationChecksum(rewritten, { includeFunctions: true })).not.toBe(
+        computeMigrationChecksum(initial, { includeFunctions: true })
+      );
+    });
+
+    it('should compare function source with checksumFunctions', async () => {
+      const first = await runMigrations('test-db', [initial], { checksumFunctions: true });
+      await first.db.close();
+
+      const rewritten: Migration = { ...initial, up: async () => {} };
+      const error = await runMigrations('test-db', [rewritten], {
+        checksumValidation: 'error',
+        checksumFunctions: true
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(ChecksumMismatchError);
+    });
+
+    it('should warn when an applied migration was edited', async () => {
+      const first = await runMigrations('test-db', [initial]);
+      await first.db.close();
+
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const second = await runMigrations('test-db', [edited]);
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Migration 1 (initial) was modified'));
+      warn.mockRestore();
+
+      await second.db.close();
+    });
+
+    it('should throw ChecksumMismatchError in error mode', async () => {
+      const first = await runMigrations('test-db', [initial]);
+      await first.db.close();
+
+      const error = await runMigrations('test-db', [edited], {
+        checksumValidation: 'error'
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(ChecksumMismatchError);
+      expect(error.migrationId).toBe(1);
+      expect(error.recordedChecksum).toBe(computeMigrationChecksum(initial));
+      expect(error.currentChecksum).toBe(computeMigrationChecksum(edited));
+    });
+
+    it('should skip validation when turned off', async () => {
+      const first = await runMigrations('test-db', [initial]);
+      await first.db.close();
+
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const second = await runMigrations('test-db', [edited], { checksumValidation: 'off' });
+
+      expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('was modified'));
+      warn.mockRestore();
+
+      await second.db.close();
+    });
+  });
+
+  describe('versionchange and blocked', () => {
+    const initial: Migration = { id: 1, name: 'initial', stores: { users: 'id' } };
+    const addPosts: Migration = { id: 2, name: 'add_posts', stores: { posts: 'id' } };
+
+    it('should close the returned db and notify when another tab upgrades', async () => {
+      const onVersionChange = vi.fn();
+      const oldTab = await runMigrations('test-db', [initial], { onVersionChange });
+
+      const newTab = await runMigrations('test-db', [initial, addPosts]);
+
+      expect(onVersionChange).toHaveBeenCalledTimes(1);
+      expect(onVersionChange.mock.calls[0][0].newVersion).toBe(20);
+      expect(oldTab.db.isOpen()).toBe(false);
+      expect(newTab.appliedMigrations).toEqual([2]);
+
+      await newTab.db.close();
+    });
+
+    it('should report a blocked upgrade and fail after blockedTimeout', async () => {
+      const oldTab = await runMigrations('test-db', [initial], { closeOnVersionChange: false });
+      const onBlocked = vi.fn();
+
+      const error = await runMigrations('test-db', [initial, addPosts], {
+        onBlocked,
+        blockedTimeout: 50
+      }).catch(err => err);
+
+      expect(onBlocked).toHaveBeenCalled();
+      expect(error).toBeInstanceOf(UpgradeBlockedError);
+      expect(error.timeout).toBe(50);
+
+      await oldTab.db.close();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      // The cancelled upgrade must not run once the blocker goes away
+      const check = new Dexie('test-db');
+      await check.open();
+      expect(check.verno).toBe(1);
+      check.close();
+    });
+
+    it('should wait for a blocked upgrade without blockedTimeout', async () => {
+      const oldTab = await runMigrations('test-db', [initial], {
+        closeOnVersionChange: false,
+        onVersionChange: () => setTimeout(() => oldTab.db.close(), 30)
+      });
+      const onBlocked = vi.fn();
+
+      const newTab = await runMigrations('test-db', [initial, addPosts], { onBlocked });
+
+      expect(onBlocked).toHaveBeenCalled();
+      expect(newTab.appliedMigrations).toEqual([2]);
+
+      await newTab.db.close();
+    });
+  });
+
+  describe('squashed migrations', () => {
+    const originals: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: '++id, email', legacy: 'id' } },
+      {
+        id: 2,
+        name: 'add_name',
+        stores: { users: '++id, email, name' },
+        async up(tx) {
+          await tx.table('users').toCollection().modify(user => {
+            user.name = user.email;
+          });
+        }
+      },
+      { id: 3, name: 'drop_legacy', stores: { posts: '++id, userId', legacy: null } }
+    ];
+    const base: Migration = {
+      id: 3,
+      name: 'base',
+      stores: { users: '++id, email, name', posts: '++id, userId' },
+      replaces: [1, 2, 3]
+    };
+    const addTags: Migration = { id: 4, name: 'add_tags', stores: { tags: '++id' } };
+
+    it('should treat the base as applied when every replaced migration was', async () => {
+      const first = await runMigrations('test-db', originals);
+      await first.db.close();
+
+      // The record for ID 3 was written by the original, not the base
+      const result = await runMigrations('test-db', [base, addTags], { checksumValidation: 'error' });
+
+      expect(result.skippedMigrations).toEqual([3]);
+      expect(result.appliedMigrations).toEqual([4]);
+      expect(result.db.tables.map((t: { name: string }) => t.name).sort()).toEqual(
+        ['_dexie_migrations', 'posts', 'tags', 'users']
+      );
+
+      await result.db.close();
+    });
+
+    it('should apply the base on a fresh install and record the replaced IDs', async () => {
+      const first = await runMigrations('test-db', [base]);
+      expect(first.appliedMigrations).toEqual([3]);
+
+      const records = await first.db._dexie_migrations.toArray();
+      expect(records.map((r: { id: number }) => r.id)).toEqual([1, 2, 3]);
+      expect(records[0]).toMatchObject({ name: 'base', replacedBy: 3 });
+      await first.db.close();
+
+      const second = await runMigrations('test-db', [base, addTags]);
+      expect(second.appliedMigrations).toEqual([4]);
+      await second.db.close();
+    });
+
+    it('should fail clearly for a database partway through the squashed range', async () => {
+      const first = await runMigrations('test-db', [originals[0]]);
+      await first.db.close();
+
+      const error = await runMigrations('test-db', [base, addTags]).catch(err => err);
+
+      expect(error).toBeInstanceOf(PartialSquashError);
+      expect(error.missingIds).toEqual([2, 3]);
+      expect(error.recovery[0]).toContain('replacedMigrations');
+    });
+
+    it('should replay the archived originals for a partly migrated database', async () => {
+      const first = await runMigrations('test-db', [originals[0]]);
+      await first.db.users.add({ email: 'ada@example.com' });
+      await first.db.close();
+
+      const result = await runMigrations('test-db', [base, addTags], { replacedMigrations: originals });
+
+      expect(result.appliedMigrations).toEqual([2, 3, 4]);
+      expect(await result.db.users.toArray()).toEqual([{ id: 1, email: 'ada@example.com', name: 'ada@example.com' }]);
+      expect(result.db.tables.map((t: { name: string }) => t.name)).not.toContain('legacy');
+      await result.db.close();
+
+      const again = await runMigrations('test-db', [base, addTags]);
+      expect(again.appliedMigrations).toEqual([]);
+      await again.db.close();
+    });
+
+    it('should reject a base whose ID is below the migrations it replaces', async () => {
+      const lowBase: Migration = { ...base, id: 1 };
+
+      await expect(runMigrations('test-db', [lowBase])).rejects.toThrow(InvalidMigrationDefinitionError);
+    });
+
+    it('should reject replaced migrations that are still listed', async () => {
+      await expect(runMigrations('test-db', [originals[0], base])).rejects.toThrow(
+        'Migration 3 replaces migration 1, which is still in the migrations list'
+      );
+    });
+  });
 });
@@ -3,12 +3,22 @@ import Dexie from 'dexie';
 import { runMigrations } from '../runtime';
 import { 
   createSnapshot, 
+  createSnapshotFromMigrations,
   computeExpectedSchema,
   validateSchema,
   compareSnapshots,
+  formatSnapshotDiff,
+  detectSchemaDrift,
+  formatSchemaDrift,
+  findSnapshotConflicts,
+  parseSchemaString,
+  migrateSnapshot,
+  compareSnapshotMigrations,
+  SNAPSHOT_FORMAT_VERSION,
   type SchemaSnapshot
 } from '../snapshot';
 import type { Migration } from '../types';
+import { computeMigrationChecksum } from '../checksum';
 
 describe('Schema Snapshot', () => {
   beforeEach(async () => {
@@ -58,14 +68,103 @@ describe('Schema Snapshot', () => {
       const { db } = await runMigrations('snapshot-test-db', migrations);
       const snapshot = await createSnapshot(db, migrations);
 
-      expect(snapshot.tables.users.indexes).toContain('email');
-      expect(snapshot.tables.users.indexes).toContain('name');
-      expect(snapshot.tables.users.indexes).toContain('createdAt');
+      expect(snapshot.tables.users.indexes.map(i => i.name)).toEqual(['email', 'name', 'createdAt']);
       
       await db.close();
     });
   });
 
+  describe('createSnapshotFromMigrations', () => {
+    it('should match the snapshot of a migrated database', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: '++id, email', legacy: 'id' } },
+        { id: 3, name: 'posts', stores: { posts: 'id, userId, [userId+createdAt]', legacy: null } }
+      ];
+
+      const { db } = await runMigrations('snapshot-test-db', migrations);
+      const fromDb = await createSnapshot(db, migrations);
+      const fromMigrations = await createSnapshotFromMigrations(migrations);
+
+      expect(fromMigrations.formatVersion).toBe(SNAPSHOT_FORMAT_VERSION);
+      expect(fromMigrations.version).toBe(3);
+      expect(fromMigrations.lastMigrationId).toBe(3);
+      expect(fromMigrations.migrations).toEqual([
+        { id: 1, name: 'initial', checksum: computeMigrationChecksum(migrations[0], { includeFunctions: true }) },
+        { id: 3, name: 'posts', checksum: computeMigrationChecksum(migrations[1], { includeFunctions: true }) }
+      ]);
+      expect(compareSnapshots(fromDb, fromMigrations)).toEqual({ added: [], removed: [], modified: [], changes: {} });
+      
+      await db.close();
+    });
+
+    it('should match the schema read back from the database', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: '++id, &email, *tags, [first+last]', blobs: '' } }
+      ];
+
+      const { db } = await runMigrations('snapshot-test-db', migrations);
+      db.close();
+      // Without declared stores, Dexie reads the schema from IndexedDB
+      const dynamic = new Dexie('snapshot-test-db');
+      await dynamic.open();
+      const fromDb = await createSnapshot(dynamic, migrations);
+      const fromMigrations = await createSnapshotFromMigrations(migrations);
+
+      // IndexedDB lists indexes sorted by name
+      const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+      expect(fromDb.tables.users.primaryKey).toEqual(fromMigrations.tables.users.primaryKey);
+      expect(fromDb.tables.users.indexes.sort(byName)).toEqual(fromMigrations.tables.users.indexes.sort(byName));
+      expect(fromDb.tables.blobs.primaryKey).toEqual(fromMigrations.tables.blobs.primaryKey);
+      
+      dynamic.close();
+    });
+  });
+
+  describe('parseSchemaString', () => {
+    it('should parse primary key and index modifiers', () => {
+      const { primaryKey, indexes } = parseSchemaString('++id, &email, *tags, [first+last], name');
+
+      expect(primaryKey).toEqual({
+        name: 'id',
+        keyPath: 'id',
+        compound: false,
+        unique: true,
+        multiEntry: false,
+        autoIncrement: true,
+        outbound: false
+      });
+      expect(indexes.map(i => [i.name, i.unique, i.multiEntry])).toEqual([
+        ['email', true, false],
+        ['tags', false, true],
+        ['[first+last]', false, false],
+        ['name', false, false]
+      ]);
+      expect(indexes[2]).toMatchObject({ compound: true, keyPath: ['first', 'last'] });
+    });
+
+    it('should parse outbound primary keys', () => {
+      expect(parseSchemaString('').primaryKey).toMatchObject({ name: '', keyPath: null, outbound: true });
+      expect(parseSchemaString('++, date').primaryKey).toMatchObject({
+        keyPath: null,
+        outbound: true,
+        autoIncrement: true
+      });
+    });
+
+    it('should accept a compound primary key', () => {
+      expect(parseSchemaString('[userId+formId], updatedAt').primaryKey).toMatchObject({
+        name: '[userId+formId]',
+        keyPath: ['userId', 'formId'],
+        compound: true
+      });
+    });
+
+    it('should reject malformed compound indexes', () => {
+      expect(() => parseSchemaString('++id, [userId+createdAt')).toThrow("Invalid compound index '[userId+createdAt'");
+      expect(() => parseSchemaString('++id, [userId+]')).toThrow('Invalid compound index');
+    });
+  });
+
   describe('computeExpectedSchema', () => {
     it('should compute final schema from migrations', () => {
       const migrations: Migration[] = [
@@ -163,6 +262,48 @@ describe('Schema Snapshot', () => {
       await db.close();
     });
 
+    it('should match compound indexes', async () => {
+      const migrations: Migration[] = [
+        {
+          id: 1,
+          name: 'initial',
+          stores: {
+            events: '++id, [userId+createdAt]'
+          }
+        }
+      ];
+
+      const { db } = await runMigrations('snapshot-test-db', migrations);
+      const snapshot = await createSnapshot(db, migrations);
+      
+      const result = validateSchema(snapshot, computeExpectedSchema(migrations));
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
+      
+      await db.close();
+    });
+
+    it('should report changed index modifiers', async () => {
+      const migrations: Migration[] = [
+        { id: 1, name: 'initial', stores: { users: 'id, email, tags' } }
+      ];
+
+      const { db } = await runMigrations('snapshot-test-db', migrations);
+      const snapshot = await createSnapshot(db, migrations);
+      
+      const result = validateSchema(snapshot, { users: '++id, &email, *tags' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        "Table users: primary key should be '++id', found 'id'",
+        "Table users: index should be '&email', found 'email'",
+        "Table users: index should be '*tags', found 'tags'"
+      ]);
+      
+      await db.close();
+    });
+
     it('should detect missing tables', async () => {
       const migrations: Migration[] = [
         {
@@ -222,36 +363,25 @@ describe('Schema Snapshot', () => {
   describe('compareSnapshots', () => {
     it('should detect added tables', () => {
       const oldSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 1,
         timestamp: Date.now(),
         lastMigrationId: 1,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email'],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email') }
         }
       };
 
       const newSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 2,
         timestamp: Date.now(),
         lastMigrationId: 2,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email'],
-            autoIncrement: false
-          },
-          posts: {
-            name: 'posts',
-            primaryKey: 'id',
-            indexes: ['userId'],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email') },
+          posts: { name: 'posts', ...parseSchemaString('id, userId') }
         }
       };
 
@@ -264,36 +394,25 @@ describe('Schema Snapshot', () => {
 
     it('should detect removed tables', () => {
       const oldSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 1,
         timestamp: Date.now(),
         lastMigrationId: 1,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email'],
-            autoIncrement: false
-          },
-          temp: {
-            name: 'temp',
-            primaryKey: 'id',
-            indexes: [],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email') },
+          temp: { name: 'temp', ...parseSchemaString('id') }
         }
       };
 
       const newSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 2,
         timestamp: Date.now(),
         lastMigrationId: 2,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email'],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email') }
         }
       };
 
@@ -305,30 +424,24 @@ describe('Schema Snapshot', () => {
 
     it('should detect modified tables', () => {
       const oldSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 1,
         timestamp: Date.now(),
         lastMigrationId: 1,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email'],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email') }
         }
       };
 
       const newSnapshot: SchemaSnapshot = {
+        formatVersion: 2,
         version: 2,
         timestamp: Date.now(),
         lastMigrationId: 2,
+        migrations: [],
         tables: {
-          users: {
-            name: 'users',
-            primaryKey: 'id',
-            indexes: ['email', 'name'],
-            autoIncrement: false
-          }
+          users: { name: 'users', ...parseSchemaString('id, email, name') }
         }
       };
 
@@ -338,5 +451,302 @@ describe('Schema Snapshot', () => {
       expect(diff.added).toHaveLength(0);
       expect(diff.removed).toHaveLength(0);
     });
+
+    const snapshotOf = (tables: Record<string, string>): SchemaSnapshot => ({
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      version: 1,
+      timestamp: 0,
+      lastMigrationId: 1,
+      migrations: [],
+      tables: Object.fromEntries(
+        Object.entries(tables).map(([name, schema]) => [name, { name, ...parseSchemaString(schema) }])
+      )
+    });
+
+    it('should ignore index order', () => {
+      const diff = compareSnapshots(
+        snapshotOf({ users: 'id, email, name, [first+last]' }),
+        snapshotOf({ users: 'id, [first+last], name, email' })
+      );
+
+      expect(diff).toEqual({ added: [], removed: [], modified: [], changes: {} });
+    });
+
+    it('should describe index and primary key changes', () => {
+      const diff = compareSnapshots(
+        snapshotOf({ users: 'id, email, legacy, tags' }),
+        snapshotOf({ users: '++id, &email, *tags, name' })
+      );
+
+      const users = diff.changes.users;
+      expect(diff.modified).toEqual(['users']);
+      expect(users.primaryKey).toMatchObject({ attributes: ['autoIncrement'] });
+      expect(users.addedIndexes.map(i => i.name)).toEqual(['name']);
+      expect(users.removedIndexes.map(i => i.name)).toEqual(['legacy']);
+      expect(users.changedIndexes.map(c => [c.to.name, c.attributes])).toEqual([
+        ['email', ['unique']],
+        ['tags', ['multiEntry']]
+      ]);
+    });
+
+    describe('formatSnapshotDiff', () => {
+      const diff = compareSnapshots(
+        snapshotOf({ users: 'id, email', legacy: 'id' }),
+        snapshotOf({ users: 'uid, &email, name', tags: '++id' })
+      );
+
+      it('should render text', () => {
+        expect(formatSnapshotDiff(diff)).toBe([
+          'tags: added table',
+          'legacy: removed table',
+          "users: primary key 'id' → 'uid'",
+          "users: added index 'name'",
+          "users: changed index 'email' → '&email' (unique)"
+        ].join('\n'));
+      });
+
+      it('should render a markdown table', () => {
+        const markdown = formatSnapshotDiff(diff, 'markdown');
+
+        expect(markdown).toContain('| Table | Change |\n| --- | --- |');
+        expect(markdown).toContain('| `tags` | added table |');
+        expect(markdown).toContain('| `users` | changed index `email` → `&email` (unique) |');
+      });
+
+      it('should render JSON', () => {
+        expect(JSON.parse(formatSnapshotDiff(diff, 'json'))).toEqual(JSON.parse(JSON.stringify(diff)));
+      });
+
+      it('should say when nothing changed', () => {
+        const none = compareSnapshots(snapshotOf({ users: 'id' }), snapshotOf({ users: 'id' }));
+
+        expect(formatSnapshotDiff(none)).toBe('No schema changes');
+        expect(formatSnapshotDiff(none, 'markdown')).toBe('_No schema changes_');
+      });
+    });
+  });
+
+  describe('detectSchemaDrift', () => {
+    const migrations: Migration[] = [
+      { id: 1, name: 'initial', stores: { forms: '++id, name, updatedAt', legacy: 'id' } },
+      { id: 2, name: 'drop_legacy', stores: { legacy: null } }
+    ];
+
+    it('should report no drift for a matching snapshot', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+
+      const drift = await detectSchemaDrift(snapshot, migrations);
+
+      expect(drift.drifted).toBe(false);
+      expect(formatSchemaDrift(drift)).toEqual([]);
+    });
+
+    it('should report index-level changes to an existing migration', async () => {
+      const snapshot = await createSnapshotFromMigrations([
+        { ...migrations[0], stores: { forms: 'id, name, createdAt', legacy: 'id' } },
+        migrations[1]
+      ]);
+
+      const drift = await detectSchemaDrift(snapshot, migrations);
+
+      expect(drift.drifted).toBe(true);
+      expect(formatSchemaDrift(drift)).toEqual([
+        "forms: primary key '++id', snapshot has 'id'",
+        "forms: missing index 'updatedAt'",
+        "forms: unexpected index 'createdAt'"
+      ]);
+    });
+
+    it('should report an index that became unique', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+      const unique = [{ ...migrations[0], stores: { forms: '++id, &name, updatedAt', legacy: 'id' } }, migrations[1]];
+
+      const drift = await detectSchemaDrift(snapshot, unique);
+
+      expect(drift.drifted).toBe(true);
+      expect(formatSchemaDrift(drift)).toEqual(["forms: index '&name', snapshot has 'name'"]);
+    });
+
+    it('should report new migrations and tables', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+      const withTags = [...migrations, { id: 3, name: 'tags', stores: { tags: '++id' } }];
+
+      const drift = await detectSchemaDrift(snapshot, withTags);
+
+      expect(drift).toMatchObject({
+        drifted: true,
+        snapshotMigrationId: 2,
+        currentMigrationId: 3,
+        missingTables: ['tags'],
+        unexpectedTables: []
+      });
+      expect(formatSchemaDrift(drift)).toEqual([
+        'snapshot is at migration 2, migrations go up to 3',
+        'tags: missing table'
+      ]);
+    });
+
+    it('should report tables the migrations no longer create', async () => {
+      const snapshot = await createSnapshotFromMigrations([migrations[0]]);
+
+      const drift = await detectSchemaDrift(snapshot, [{ ...migrations[0], stores: { forms: '++id, name, updatedAt' } }]);
+
+      expect(drift.unexpectedTables).toEqual(['legacy']);
+      expect(formatSchemaDrift(drift)).toEqual(['legacy: unexpected table']);
+    });
+  });
+
+  describe('findSnapshotConflicts', () => {
+    const migrations: Migration[] = [
+      { id: 1, name: 'initial', stores: { forms: '++id, name' } },
+      { id: 2, name: 'add_updated_at', stores: { forms: '++id, name, updatedAt' } }
+    ];
+
+    it('should allow regenerating when only new migrations were added', async () => {
+      const snapshot = await createSnapshotFromMigrations([migrations[0]]);
+
+      expect(await findSnapshotConflicts(snapshot, migrations)).toEqual([]);
+    });
+
+    it('should refuse when a snapshotted migration was edited', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+      const edited = [migrations[0], { ...migrations[1], stores: { forms: '++id, name, createdAt' } }];
+
+      expect(await findSnapshotConflicts(snapshot, edited)).toEqual([
+        'changed after the snapshot: migration 2 add_updated_at',
+        "changed after the snapshot: forms: missing index 'createdAt'",
+        "changed after the snapshot: forms: unexpected index 'updatedAt'"
+      ]);
+    });
+
+    it('should refuse when the code of a snapshotted migration was edited', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+      const edited = [migrations[0], { ...migrations[1], up: async () => {} }];
+
+      expect(await findSnapshotConflicts(snapshot, edited)).toEqual([
+        'changed after the snapshot: migration 2 add_updated_at'
+      ]);
+    });
+
+    it('should refuse when a snapshotted migration was deleted', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+
+      expect(await findSnapshotConflicts(snapshot, [migrations[0]])).toEqual([
+        'migration 2 is in the snapshot but no longer exists'
+      ]);
+    });
+
+    it('should refuse invalid new migrations', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+      const duplicate = [...migrations, { id: 2, name: 'again' }];
+
+      expect(await findSnapshotConflicts(snapshot, duplicate)).toEqual([
+        'Duplicate migration IDs detected: 2'
+      ]);
+    });
+  });
+
+  describe('migrateSnapshot', () => {
+    const migrations: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: '++id, &email, *tags' } },
+      { id: 2, name: 'add_posts', stores: { posts: 'id, userId' } }
+    ];
+
+    it('should return current snapshots unchanged', async () => {
+      const snapshot = await createSnapshotFromMigrations(migrations);
+
+      expect(migrateSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(snapshot);
+    });
+
+    it('should upgrade format 1 tables, taking modifiers from the migrations', async () => {
+      const stored = {
+        version: 1,
+        timestamp: 1700000000000,
+        lastMigrationId: 1,
+        tables: {
+          users: { name: 'users', primaryKey: 'id', indexes: ['email', 'tags'], autoIncrement: true }
+        }
+      };
+
+      const snapshot = migrateSnapshot(stored, migrations);
+
+      expect(snapshot.formatVersion).toBe(SNAPSHOT_FORMAT_VERSION);
+      expect(snapshot.timestamp).toBe(1700000000000);
+      expect(snapshot.tables.users).toEqual((await createSnapshotFromMigrations([migrations[0]])).tables.users);
+      expect(snapshot.migrations.map(m => m.id)).toEqual([1]);
+    });
+
+    it('should upgrade format 1 tables without migrations', () => {
+      const snapshot = migrateSnapshot({
+        version: 1,
+        timestamp: 0,
+        lastMigrationId: 1,
+        tables: { users: { name: 'users', primaryKey: 'id', indexes: ['email'], autoIncrement: true } }
+      });
+
+      expect(snapshot.tables.users.primaryKey).toMatchObject({ name: 'id', autoIncrement: true });
+      expect(snapshot.tables.users.indexes).toMatchObject([{ name: 'email', unique: false }]);
+      expect(snapshot.migrations).toEqual([]);
+    });
+
+    it('should rebuild snapshots that only list migration files', async () => {
+      const stored = {
+        version: 1,
+        lastMigrationId: 1,
+        migrations: ['0001_initial.ts'],
+        note: 'Full schema snapshot requires runtime database access'
+      };
+
+      const snapshot = migrateSnapshot(stored, migrations);
+
+      expect(snapshot.lastMigrationId).toBe(1);
+      expect(Object.keys(snapshot.tables).sort()).toEqual(['_dexie_migrations', 'users']);
+    });
+
+    it('should keep the migration files of snapshots without tables when no migrations are given', () => {
+      const snapshot = migrateSnapshot({
+        version: 2,
+        lastMigrationId: 2,
+        migrations: ['0001_initial.ts', '0003_add_posts.ts']
+      });
+
+      expect(snapshot.tables).toEqual({});
+      expect(snapshot.lastMigrationId).toBe(3);
+      expect(snapshot.migrations).toEqual([
+        { id: 1, name: 'initial', checksum: '' },
+        { id: 3, name: 'add_posts', checksum: '' }
+      ]);
+      expect(compareSnapshotMigrations(snapshot, [1, 3])).toEqual({ added: [], removed: [] });
+    });
+
+    it('should reject snapshots from a newer version', () => {
+      expect(() => migrateSnapshot({ formatVersion: SNAPSHOT_FORMAT_VERSION + 1 })).toThrow(
+        `Snapshot format ${SNAPSHOT_FORMAT_VERSION + 1} is newer`
+      );
+    });
+  });
+
+  describe('compareSnapshotMigrations', () => {
+    it('should report migration IDs missing on either side', async () => {
+      const snapshot = await createSnapshotFromMigrations([
+        { id: 1, name: 'initial', stores: { users: '++id' } },
+        { id: 2, name: 'add_posts', stores: { posts: '++id' } }
+      ]);
+
+      expect(compareSnapshotMigrations(snapshot, [1, 2])).toEqual({ added: [], removed: [] });
+      expect(compareSnapshotMigrations(snapshot, [4, 1, 3])).toEqual({ added: [3, 4], removed: [2] });
+    });
+
+    it('should fall back to the last migration ID for format 1 snapshots', () => {
+      const snapshot = migrateSnapshot({
+        version: 2,
+        timestamp: 0,
+        lastMigrationId: 2,
+        tables: { users: { name: 'users', primaryKey: 'id', indexes: [], autoIncrement: true } }
+      });
+
+      expect(compareSnapshotMigrations(snapshot, [1, 2])).toEqual({ added: [], removed: [] });
+      expect(compareSnapshotMigrations(snapshot, [1, 2, 3])).toEqual({ added: [3], removed: [] });
+    });
   });
 });
@@ -36,7 +36,8 @@ describe('Migration Squashing', () => {
 
       const result = squashMigrations(migrations, { cutoffId: 3 });
 
-      expect(result.baseMigration.id).toBe(1);
+      expect(result.baseMigration.id).toBe(3);
+      expect(result.baseMigration.replaces).toEqual([1, 2, 3]);
       expect(result.baseMigration.name).toBe('base_migration');
       expect(result.baseMigration.stores?.users).toBe('id, email, name');
       expect(result.baseMigration.stores?.posts).toBe('id, userId, title');
@@ -44,6 +45,20 @@ describe('Migration Squashing', () => {
       expect(result.remainingMigrations).toHaveLength(0);
     });
 
+    it('should carry over IDs replaced by an earlier squash', () => {
+      const migrations: Migration[] = [
+        { id: 3, name: 'base', stores: { users: 'id' }, replaces: [1, 2, 3] },
+        { id: 4, name: 'add_posts', stores: { posts: 'id' } },
+        { id: 5, name: 'add_tags', stores: { tags: 'id' } }
+      ];
+
+      const result = squashMigrations(migrations, { cutoffId: 4 });
+
+      expect(result.baseMigration.id).toBe(4);
+      expect(result.baseMigration.replaces).toEqual([1, 2, 3, 4]);
+      expect(result.squashedIds).toEqual([3, 4]);
+    });
+
     it('should keep migrations after cutoff', () => {
       const migrations: Migration[] = [
         {
@@ -262,19 +277,21 @@ describe('Migration Squashing', () => {
   describe('generateSquashedMigrationFile', () => {
     it('should generate valid migration file content', () => {
       const migration: Migration = {
-        id: 1,
+        id: 2,
         name: 'base_migration',
         stores: {
           users: 'id, email, name',
           posts: 'id, userId, title'
-        }
+        },
+        replaces: [1, 2]
       };
 
       const content = generateSquashedMigrationFile(migration);
 
       expect(content).toContain('import type { Migration }');
-      expect(content).toContain("id: 1");
+      expect(content).toContain("id: 2");
       expect(content).toContain("name: 'base_migration'");
+      expect(content).toContain('replaces: [1, 2],');
       expect(content).toContain("users: 'id, email, name'");
       expect(content).toContain("posts: 'id, userId, title'");
       expect(content).toContain('as Migration');
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import { MigrationTestHarness, MigrationAssertionError } from '../testing';
+import type { Migration } from '../types';
+
+describe('MigrationTestHarness', () => {
+  const migrations: Migration[] = [
+    {
+      id: 1,
+      name: 'initial',
+      stores: { users: '++id, email' }
+    },
+    {
+      id: 2,
+      name: 'add_display_name',
+      stores: { users: '++id, email, displayName' },
+      up: async (tx) => {
+        await tx.table('users').toCollection().modify(user => {
+          user.displayName = `${user.first} ${user.last}`;
+        });
+      },
+      down: async (tx) => {
+        await tx.table('users').toCollection().modify(user => {
+          delete user.displayName;
+        });
+      }
+    }
+  ];
+
+  let harness: MigrationTestHarness;
+
+  afterEach(async () => {
+    await harness.destroy();
+  });
+
+  it('should run a data migration against seeded rows', async () => {
+    harness = new MigrationTestHarness(migrations);
+
+    await harness.migrateTo(1);
+    await harness.seed('users', [
+      { email: 'ada@example.com', first: 'Ada', last: 'Lovelace' },
+      { email: 'alan@example.com', first: 'Alan', last: 'Turing' }
+    ]);
+
+    const result = await harness.migrateToLatest();
+
+    expect(result.appliedMigrations).toEqual([2]);
+    expect(harness.migrationId).toBe(2);
+    await harness.expectSchema();
+    await harness.expectRowCount('users', 2);
+    await harness.expectRowShape('users', { email: 'string', displayName: 'string' });
+    expect(await harness.db.table('users').get(1)).toMatchObject({ displayName: 'Ada Lovelace' });
+  });
+
+  it('should use an isolated database', async () => {
+    harness = new MigrationTestHarness(migrations);
+    await harness.migrateToLatest();
+
+    expect(harness.dbName).toMatch(/^dexie-migrate-test-/);
+    expect(await Dexie.exists(harness.dbName)).toBe(false);
+  });
+
+  it('should roll back when migrating to an older migration', async () => {
+    harness = new MigrationTestHarness(migrations);
+    await harness.migrateTo(1);
+    await harness.seed('users', [{ email: 'ada@example.com', first: 'Ada', last: 'Lovelace' }]);
+    await harness.migrateToLatest();
+
+    await harness.migrateTo(1);
+
+    await harness.expectSchema({ users: '++id, email' });
+    await harness.expectRowShape('users', { displayName: 'undefined' });
+  });
+
+  it('should report assertion failures', async () => {
+    harness = new MigrationTestHarness(migrations);
+    await harness.migrateTo(1);
+    await harness.seed('users', [{ email: 'ada@example.com' }]);
+
+    await expect(harness.expectRowCount('users', 2)).rejects.toThrow(MigrationAssertionError);
+    await expect(harness.expectRowCount('users', 2)).rejects.toThrow('Expected 2 rows in users, found 1');
+    await expect(harness.expectRowShape('users', { displayName: 'string' }))
+      .rejects.toThrow('row 0: displayName is undefined, expected string');
+    await expect(harness.expectSchema({ users: '++id, email, displayName' }))
+      .rejects.toThrow("missing index 'displayName'");
+  });
+
+  it('should require migrating before using the database', () => {
+    harness = new MigrationTestHarness(migrations);
+
+    expect(() => harness.db).toThrow('Call migrateTo()');
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import {
+  verifyMigrations,
+  formatVerificationReport,
+  verifyUpgradePaths,
+  formatUpgradePathReport
+} from '../verify';
+import { parseSchemaString } from '../snapshot';
+import type { Migration } from '../types';
+
+describe('verifyMigrations', () => {
+  const initial: Migration = {
+    id: 1,
+    name: 'initial',
+    stores: { users: '++id, email' }
+  };
+
+  const addDisplayName: Migration = {
+    id: 2,
+    name: 'add_display_name',
+    stores: { users: '++id, email, displayName' },
+    up: async (tx) => {
+      await tx.table('users').toCollection().modify(user => {
+        user.displayName = user.email;
+      });
+    },
+    down: async (tx) => {
+      await tx.table('users').toCollection().modify(user => {
+        delete user.displayName;
+      });
+    },
+    validateAfter: async (tx) => {
+      const users = await tx.table('users').toArray();
+      return users.every(u => typeof u.displayName === 'string');
+    }
+  };
+
+  it('should pass migrations that apply, validate and round-trip', async () => {
+    const report = await verifyMigrations([initial, addDisplayName]);
+
+    expect(report.passed).toBe(true);
+    expect(report.migrations.map(m => m.id)).toEqual([1, 2]);
+    expect(report.migrations[1].checks.map(c => c.name)).toEqual([
+      'apply', 'validateAfter', 'schema', 'rollback', 'reapply'
+    ]);
+    expect(report.migrations[1].checks.every(c => c.passed)).toBe(true);
+  });
+
+  it('should report a failing up() and skip later migrations', async () => {
+    const broken: Migration = {
+      id: 2,
+      name: 'broken',
+      stores: { posts: '++id' },
+      up: async () => {
+        throw new Error('boom');
+      }
+    };
+    const later: Migration = { id: 3, name: 'later', stores: { tags: '++id' } };
+
+    const report = await verifyMigrations([initial, broken, later]);
+
+    expect(report.passed).toBe(false);
+    expect(report.migrations[0].passed).toBe(true);
+    expect(report.migrations[1].checks).toEqual([
+      { name: 'apply', passed: false, messages: [expect.stringContaining('boom')] }
+    ]);
+    expect(report.migrations[2]).toMatchObject({ skipped: true, passed: false });
+  });
+
+  it('should report a failing validateAfter()', async () => {
+    const invalid: Migration = {
+      ...addDisplayName,
+      up: undefined,
+      down: undefined
+    };
+    const seeded: Migration = {
+      ...initial,
+      up: async (tx) => {
+        await tx.table('users').add({ email: 'ada@example.com' });
+      }
+    };
+
+    const report = await verifyMigrations([seeded, invalid]);
+
+    const validateAfter = report.migrations[1].checks.find(c => c.name === 'validateAfter');
+    expect(validateAfter).toMatchObject({ passed: false });
+    expect(report.passed).toBe(false);
+  });
+
+  it('should report a failing down()', async () => {
+    const badDown: Migration = {
+      ...addDisplayName,
+      down: async () => {
+        throw new Error('cannot undo');
+      }
+    };
+
+    const report = await verifyMigrations([initial, badDown]);
+
+    const rollback = report.migrations[1].checks.find(c => c.name === 'rollback');
+    expect(rollback).toMatchObject({ passed: false, messages: [expect.stringContaining('cannot undo')] });
+    expect(report.migrations[1].checks.map(c => c.name)).not.toContain('reapply');
+  });
+
+  it('should accept compound indexes in the schema check', async () => {
+    const compound: Migration = {
+      id: 1,
+      name: 'compound',
+      stores: { events: '++id, [userId+createdAt]' }
+    };
+
+    const report = await verifyMigrations([compound]);
+
+    expect(report.passed).toBe(true);
+  });
+
+  it('should check the schema stored in the database', async () => {
+    const changedKey: Migration = {
+      ...initial,
+      up: async (tx) => {
+        // Recreate the table with another primary key behind Dexie's back
+        const idb = tx.idbtrans.db;
+        idb.deleteObjectStore('users');
+        idb.createObjectStore('users', { keyPath: 'uuid' }).createIndex('email', 'email');
+      }
+    };
+
+    const report = await verifyMigrations([changedKey]);
+
+    expect(report.passed).toBe(false);
+    const schema = report.migrations[0].checks.find(c => c.name === 'schema');
+    expect(schema).toMatchObject({ passed: false, messages: ["Table users: primary key should be '++id', found 'uuid'"] });
+  });
+
+  it('should format the report as text', async () => {
+    const report = await verifyMigrations([initial, addDisplayName]);
+    const text = formatVerificationReport(report);
+
+    expect(text).toContain('✓ 2 add_display_name');
+    expect(text).toContain('    ✓ rollback');
+    expect(text).toContain('✓ All 2 migration(s) verified');
+  });
+});
+
+describe('verifyUpgradePaths', () => {
+  const migrations: Migration[] = [
+    { id: 1, name: 'initial', stores: { users: '++id, email' } },
+    { id: 2, name: 'add_posts', stores: { posts: '++id, userId' } },
+    { id: 3, name: 'index_names', stores: { users: '++id, email, name', legacy: null } }
+  ];
+
+  it('should match a fresh install from every start point', async () => {
+    const report = await verifyUpgradePaths(migrations);
+
+    expect(report.passed).toBe(true);
+    expect(report.paths.map(p => p.from)).toEqual([1, 2]);
+    expect(Object.keys(report.fresh.tables).sort()).toEqual(['_dexie_migrations', 'posts', 'users']);
+    expect(formatUpgradePathReport(report)).toContain('✓ All 2 upgrade path(s) match a fresh install');
+  });
+
+  it('should pass migrations that copy from a table they drop', async () => {
+    const recreated: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: '++id, email' } },
+      {
+        id: 2,
+        name: 'users_to_people',
+        stores: { people: 'uuid, email', users: null },
+        up: async (tx) => {
+          const users = await tx.table('users').toArray();
+          await tx.table('people').bulkAdd(users.map(u => ({ uuid: `user-${u.id}`, email: u.email })));
+        }
+      }
+    ];
+
+    const report = await verifyUpgradePaths(recreated);
+
+    expect(report.passed).toBe(true);
+    expect(Object.keys(report.fresh.tables).sort()).toEqual(['_dexie_migrations', 'people']);
+  });
+
+  it('should report start points whose upgrade fails', async () => {
+    // Only works when migration 2 runs in the same upgrade as migration 3
+    const assumesLatest: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: 'id' } },
+      {
+        id: 2,
+        name: 'email',
+        stores: { users: 'id, email' },
+        up: async (tx) => {
+          if (tx.db.verno !== 3) {
+            throw new Error('expected version 3');
+          }
+        }
+      },
+      { id: 3, name: 'posts', stores: { posts: 'id' } }
+    ];
+
+    const report = await verifyUpgradePaths(assumesLatest);
+
+    expect(report.passed).toBe(false);
+    expect(report.paths).toHaveLength(2);
+    expect(report.paths[0]).toMatchObject({ from: 1, passed: true });
+    expect(report.paths[1]).toMatchObject({ from: 2, passed: false, error: expect.any(String) });
+    expect(formatUpgradePathReport(report)).toContain('✗ from 2');
+  });
+
+  it('should reject when a fresh install fails', async () => {
+    // Fresh installs upgrade one migration at a time too, and IndexedDB can't
+    // change the primary key of an existing table
+    const changedKey: Migration[] = [
+      { id: 1, name: 'initial', stores: { users: 'id, email' } },
+      { id: 2, name: 'uid', stores: { users: 'uid, email' } }
+    ];
+
+    await expect(verifyUpgradePaths(changedKey)).rejects.toThrow('changing primary key');
+  });
+
+  it('should list schema differences in the text report', () => {
+    const text = formatUpgradePathReport({
+      passed: false,
+      fresh: { formatVersion: 2, version: 3, timestamp: 0, tables: {}, lastMigrationId: 3, migrations: [] },
+      paths: [
+        {
+          from: 1,
+          passed: false,
+          differences: {
+            added: ['legacy'],
+            removed: ['posts'],
+            modified: ['users'],
+            changes: {
+              users: { addedIndexes: [], removedIndexes: parseSchemaString('++id, name').indexes, changedIndexes: [] }
+            }
+          },
+          version: 2
+        },
+        { from: 2, passed: true, differences: { added: [], removed: [], modified: [], changes: {} } }
+      ]
+    });
+
+    expect(text).toContain('✗ from 1');
+    expect(text).toContain('    version 2, fresh install is at 3');
+    expect(text).toContain('    missing table: posts');
+    expect(text).toContain('    extra table: legacy');
+    expect(text).toContain("    table differs: users\n        removed index 'name'");
+    expect(text).toContain('✓ from 2');
+    expect(text).toContain('✗ 1 of 2 upgrade path(s) diverge from a fresh install');
+  });
+});
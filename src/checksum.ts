@@ -0,0 +1,83 @@
+import type { Migration, StoresMap } from './types';
+
+/**
+ * Options for computeMigrationChecksum
+ */
+export interface ChecksumOptions {
+  /**
+   * Also hash the source of `up()`, `validateAfter()` and the batch step
+   * (default false)
+   */
+  includeFunctions?: boolean;
+}
+
+/**
+ * Compute a checksum of a migration's definition
+ *
+ * Covers the schema (`stores`) and the batch table and size. Function source
+ * is only hashed with `includeFunctions`: `fn.toString()` changes with the
+ * minifier, bundler or transpile target even when the migration didn't, so it
+ * is only stable where migrations are loaded from source, as in the CLI.
+ * `down()`, `name` and `timeout` are left out since changing them does not
+ * affect installed databases.
+ */
+export function computeMigrationChecksum(migration: Migration, options: ChecksumOptions = {}): string {
+  const { includeFunctions = false } = options;
+  const parts = [`stores:${serializeStores(migration.stores)}`];
+
+  if (includeFunctions) {
+    parts.push(
+      `up:${functionSource(migration.up)}`,
+      `validateAfter:${functionSource(migration.validateAfter)}`
+    );
+  }
+
+  if (migration.batch) {
+    const process = includeFunctions ? `:${functionSource(migration.batch.process)}` : '';
+    parts.push(`batch:${migration.batch.table}:${migration.batch.size ?? ''}${process}`);
+  }
+
+  return fnv1a(parts.join('\n'));
+}
+
+/**
+ * Serialize stores with sorted table names so key order does not matter
+ */
+function serializeStores(stores: StoresMap | undefined): string {
+  if (!stores) {
+    return '';
+  }
+
+  return Object.keys(stores)
+    .sort()
+    .map(table => `${table}=${stores[table] === null ? 'null' : normalizeSchema(stores[table]!)}`)
+    .join(';');
+}
+
+/**
+ * Normalize whitespace in a Dexie schema string
+ */
+function normalizeSchema(schema: string): string {
+  return schema.split(',').map(s => s.trim()).filter(s => s.length > 0).join(',');
+}
+
+/**
+ * Function source with whitespace collapsed, so reformatting is not a change
+ */
+function functionSource(fn: ((...args: never[]) => unknown) | undefined): string {
+  return fn ? fn.toString().replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex characters
+ */
+function fnv1a(input: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
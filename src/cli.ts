@@ -3,6 +3,23 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadMigrations, loadSchemaFile } from './loader';
+import { generateMigration, generateMigrationFile } from './generate';
+import { formatLintReport, lintMigrations } from './lint';
+import {
+  compareSnapshots,
+  computeExpectedSchema,
+  createSnapshotFromMigrations,
+  detectSchemaDrift,
+  findSnapshotConflicts,
+  formatSchemaDrift,
+  formatSnapshotDiff,
+  loadSnapshotFromFile,
+  migrateSnapshot,
+  saveSnapshotToFile,
+  SNAPSHOT_FORMAT_VERSION
+} from './snapshot';
+import { generateSquashedMigrationFile, squashMigrations, validateSquash } from './squash';
 
 const program = new Command();
 
@@ -19,7 +36,6 @@ program
   .description('Create a new migration file')
   .action((description?: string) => {
     const migrationName = description || 'new_migration';
-    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
     
     // Find the next migration ID
     const migrationsDir = path.join(process.cwd(), 'migrations');
@@ -47,9 +63,8 @@ program
       }
     }
 
-    const paddedId = String(nextId).padStart(4, '0');
-    const sanitizedName = migrationName.replace(/[^a-z0-9_]/gi, '_').toLowerCase();
-    const filename = `${paddedId}_${timestamp}_${sanitizedName}.ts`;
+    const sanitizedName = sanitizeMigrationName(migrationName);
+    const filename = migrationFileName(nextId, sanitizedName);
     const filepath = path.join(migrationsDir, filename);
 
     const template = `import type { Migration } from 'dexie-migrate';
@@ -94,6 +109,68 @@ export default {
     console.log(`  3. Run your application to apply the migration`);
   });
 
+/**
+ * Generate a migration from the desired schema
+ */
+program
+  .command('generate [description]')
+  .description('Generate the next migration from the desired schema in schema.ts')
+  .option('-s, --schema <file>', 'Schema file exporting the desired stores', 'schema.ts')
+  .option('-d, --dir <path>', 'Migrations directory', 'migrations')
+  .option('--dry-run', 'Print the migration without writing it')
+  .action(async (description: string | undefined, options) => {
+    try {
+      const schemaPath = path.resolve(process.cwd(), options.schema);
+      const migrationsDir = path.resolve(process.cwd(), options.dir);
+
+      if (!fs.existsSync(schemaPath)) {
+        console.error(`❌ Schema file not found: ${options.schema}`);
+        process.exit(1);
+      }
+
+      const desired = await loadSchemaFile(schemaPath);
+      const loaded = await loadMigrations(migrationsDir);
+      const name = sanitizeMigrationName(description || 'schema_changes');
+      const generated = generateMigration(loaded.map(l => l.migration), desired, name);
+
+      if (generated.changes.length === 0) {
+        console.log('✓ Migrations already produce the desired schema, nothing to generate');
+        return;
+      }
+
+      console.log('Schema changes:');
+      for (const change of generated.changes) {
+        const detail = change.type === 'changed' ? `'${change.from}' → '${change.to}'` : `'${change.to ?? change.from}'`;
+        console.log(`  ${change.type} ${change.table}: ${detail}`);
+      }
+
+      const findings = [...generated.lint.errors, ...generated.lint.warnings];
+      if (findings.length > 0) {
+        console.log('\n⚠ Needs attention before it can ship:');
+        findings.forEach(f => console.log(`  ${f.table}: ${f.message}`));
+      }
+
+      const filename = migrationFileName(generated.migration.id, name);
+      const content = generateMigrationFile(generated);
+
+      if (options.dryRun) {
+        console.log(`\n${filename}:\n`);
+        console.log(content);
+        return;
+      }
+
+      fs.mkdirSync(migrationsDir, { recursive: true });
+      fs.writeFileSync(path.join(migrationsDir, filename), content);
+      console.log(`\n✓ Created migration: ${filename}`);
+      if (generated.lint.errors.length > 0) {
+        console.log('  Edit it as described above; "dexie-migrate lint" reports it until then');
+      }
+    } catch (error) {
+      console.error('❌ Failed to generate migration:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Check schema drift
  */
@@ -101,6 +178,7 @@ program
   .command('check')
   .description('Check for schema drift')
   .option('-s, --snapshot <file>', 'Snapshot file to compare against', '.dexie-migrate/snapshot.json')
+  .option('--fix', 'Regenerate the snapshot when the only drift is new migrations')
   .action(async (options) => {
     try {
       console.log('Checking schema...');
@@ -120,39 +198,54 @@ program
         process.exit(1);
       }
       
-      // Load snapshot
-      const snapshotContent = fs.readFileSync(snapshotPath, 'utf-8');
-      const snapshot = JSON.parse(snapshotContent);
-      
       // Load current migrations
-      const files = fs.readdirSync(migrationsDir);
-      const currentMigrations = files
-        .filter(f => /^\d{4}_.*\.ts$/.test(f))
-        .sort();
+      const loaded = await loadMigrations(migrationsDir);
+      const migrations = loaded.map(l => l.migration);
+      
+      // Load snapshot, upgrading older formats with the help of the migrations
+      const stored = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+      const snapshot = migrateSnapshot(stored, migrations);
+      const outdatedFormat = (stored.formatVersion ?? 1) < SNAPSHOT_FORMAT_VERSION;
       
       console.log(`Snapshot version: ${snapshot.version}`);
-      console.log(`Current migrations: ${currentMigrations.length}`);
+      console.log(`Current migrations: ${loaded.length}`);
+      if (outdatedFormat && !options.fix) {
+        console.log('⚠ Snapshot uses an older file format; "dexie-migrate check --fix" rewrites it');
+      }
       
       // Check for drift
-      const driftDetected = currentMigrations.length !== snapshot.version;
+      const drift = await detectSchemaDrift(snapshot, migrations);
       
-      if (driftDetected) {
-        console.log('⚠ Schema drift detected!');
+      if (drift.drifted) {
+        console.log('⚠ Drift detected:');
+        formatSchemaDrift(drift).forEach(line => console.log(`  ${line}`));
         
-        if (currentMigrations.length > snapshot.version) {
-          const newMigrations = currentMigrations.slice(snapshot.version);
-          console.log(`  New migrations (${newMigrations.length}):`);
-          newMigrations.forEach(m => console.log(`    - ${m}`));
-          console.log('\nRun "dexie-migrate snapshot" to update the snapshot');
-        } else {
-          console.log('  Fewer migrations than snapshot version');
-          console.log('  This may indicate deleted migrations');
+        if (!options.fix) {
+          console.log('  Run: dexie-migrate snapshot');
+          process.exit(1);
         }
         
-        process.exit(1);
+        const conflicts = await findSnapshotConflicts(snapshot, migrations);
+        
+        if (conflicts.length > 0) {
+          console.error('\n❌ Not updating the snapshot:');
+          conflicts.forEach(conflict => console.error(`  ${conflict}`));
+          console.log('\nMigrations the snapshot covers may already be applied to real databases.');
+          console.log('Restore them and add a new migration instead, or run "dexie-migrate snapshot"');
+          console.log('if the change is intended.');
+          process.exit(1);
+        }
+        
+        saveSnapshotToFile(await createSnapshotFromMigrations(migrations), snapshotPath);
+        const added = loaded.filter(l => l.migration.id > snapshot.lastMigrationId);
+        console.log(`\n✓ Snapshot updated with ${added.length} new migration(s)`);
+        added.forEach(l => console.log(`    - ${l.file}`));
       } else {
-        console.log('✓ No schema drift detected');
-        console.log('  Schema matches snapshot');
+        console.log('✓ Schema matches snapshot');
+        if (outdatedFormat && options.fix) {
+          saveSnapshotToFile(snapshot, snapshotPath);
+          console.log('✓ Snapshot rewritten in the current format');
+        }
       }
     } catch (error) {
       console.error('❌ Failed to check schema:', error instanceof Error ? error.message : error);
@@ -160,6 +253,127 @@ program
     }
   });
 
+/**
+ * Show schema changes
+ */
+program
+  .command('diff')
+  .description('Show schema changes between the snapshot and the migrations')
+  .option('-s, --snapshot <file>', 'Snapshot to compare from', '.dexie-migrate/snapshot.json')
+  .option('--to <file>', 'Snapshot to compare to (defaults to the schema the migrations produce)')
+  .option('-d, --dir <path>', 'Migrations directory', 'migrations')
+  .option('-f, --format <format>', 'Output format: text, markdown or json', 'text')
+  .action(async (options) => {
+    try {
+      if (!['text', 'markdown', 'json'].includes(options.format)) {
+        console.error(`❌ Unknown format: ${options.format} (expected text, markdown or json)`);
+        process.exit(1);
+      }
+
+      const loaded = await loadMigrations(path.resolve(process.cwd(), options.dir));
+      const migrations = loaded.map(l => l.migration);
+
+      const from = loadSnapshotFromFile(options.snapshot, migrations);
+      const to = options.to
+        ? loadSnapshotFromFile(options.to, migrations)
+        : await createSnapshotFromMigrations(migrations);
+
+      console.log(formatSnapshotDiff(compareSnapshots(from, to), options.format));
+    } catch (error) {
+      console.error('❌ Failed to diff schemas:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Verify migrations
+ */
+program
+  .command('verify')
+  .description('Apply migrations to an in-memory database and verify each step')
+  .option('-d, --dir <path>', 'Migrations directory', 'migrations')
+  .option('--upgrade-paths', 'Also upgrade from every earlier migration and compare with a fresh install')
+  .option('--json', 'Print the report as JSON')
+  .action(async (options) => {
+    try {
+      const migrationsDir = path.resolve(process.cwd(), options.dir);
+      
+      if (!fs.existsSync(migrationsDir)) {
+        console.error('❌ No migrations directory found');
+        process.exit(1);
+      }
+
+      const loaded = await loadMigrations(migrationsDir);
+
+      if (loaded.length === 0) {
+        console.error('❌ No migration files found');
+        process.exit(1);
+      }
+
+      if (!options.json) {
+        console.log(`Verifying ${loaded.length} migration(s)...\n`);
+      }
+
+      // Loaded lazily: fake-indexeddb is an optional dependency
+      const verify = await import('./verify');
+      const migrations = loaded.map(l => l.migration);
+      const report = await verify.verifyMigrations(migrations);
+      const upgradePaths = options.upgradePaths ? await verify.verifyUpgradePaths(migrations) : undefined;
+
+      if (options.json) {
+        console.log(JSON.stringify(upgradePaths ? { ...report, upgradePaths } : report, null, 2));
+      } else {
+        console.log(verify.formatVerificationReport(report));
+        if (upgradePaths) {
+          console.log(`\nUpgrade paths:\n${verify.formatUpgradePathReport(upgradePaths)}`);
+        }
+      }
+
+      if (!report.passed || (upgradePaths && !upgradePaths.passed)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Failed to verify migrations:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Lint migration stores definitions
+ */
+program
+  .command('lint')
+  .description('Check migration stores for definitions Dexie or IndexedDB would reject')
+  .option('-d, --dir <path>', 'Migrations directory', 'migrations')
+  .option('--json', 'Print the result as JSON')
+  .action(async (options) => {
+    try {
+      const migrationsDir = path.resolve(process.cwd(), options.dir);
+
+      if (!fs.existsSync(migrationsDir)) {
+        console.error('❌ No migrations directory found');
+        process.exit(1);
+      }
+
+      const loaded = await loadMigrations(migrationsDir);
+      const result = lintMigrations(loaded.map(l => l.migration));
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`Linting ${loaded.length} migration(s)...\n`);
+        console.log(formatLintReport(result));
+      }
+
+      if (!result.valid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Failed to lint migrations:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Create snapshot
  */
@@ -181,41 +395,26 @@ program
       }
 
       // Load all migrations
-      const files = fs.readdirSync(migrationsDir);
-      const migrationFiles = files
-        .filter(f => /^\d{4}_.*\.ts$/.test(f))
-        .sort();
+      const loaded = await loadMigrations(migrationsDir);
 
-      if (migrationFiles.length === 0) {
+      if (loaded.length === 0) {
         console.error('❌ No migration files found');
         process.exit(1);
       }
 
-      // We can't actually run migrations in Node CLI context without a browser,
-      // so we compute the expected schema from migration files
-      console.log(`Found ${migrationFiles.length} migration(s)`);
+      console.log(`Found ${loaded.length} migration(s)`);
       
-      // For CLI, we create a schema snapshot from the migration definitions
+      // There is no IndexedDB in Node, so the schema is computed from the
+      // migration definitions rather than read from a database
+      const snapshot = await createSnapshotFromMigrations(loaded.map(l => l.migration));
       const snapshotPath = options.output;
-      const snapshotDir = path.dirname(snapshotPath);
       
-      if (!fs.existsSync(snapshotDir)) {
-        fs.mkdirSync(snapshotDir, { recursive: true });
-      }
-      
-      const snapshot = {
-        version: migrationFiles.length,
-        timestamp: Date.now(),
-        lastMigrationId: migrationFiles.length,
-        migrations: migrationFiles,
-        note: 'Schema snapshot created from migration files. This represents the expected schema after all migrations are applied.'
-      };
-      
-      fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+      saveSnapshotToFile(snapshot, snapshotPath);
       
       console.log(`✓ Snapshot saved to ${snapshotPath}`);
       console.log(`  Version: ${snapshot.version}`);
-      console.log(`  Migrations: ${migrationFiles.length}`);
+      console.log(`  Tables: ${Object.keys(snapshot.tables).length}`);
+      console.log(`  Migrations: ${loaded.length}`);
     } catch (error) {
       console.error('❌ Failed to create snapshot:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -229,6 +428,7 @@ program
   .command('squash')
   .option('--cutoff <number>', 'Migration ID to squash up to', '10')
   .option('-o, --output <dir>', 'Output directory for squashed migration', 'migrations')
+  .option('-s, --snapshot <file>', 'Snapshot file to update', '.dexie-migrate/snapshot.json')
   .option('--dry-run', 'Preview without making changes')
   .description('Squash old migrations into a single base migration')
   .action(async (options) => {
@@ -249,27 +449,16 @@ program
         process.exit(1);
       }
 
-      // Load migration files
-      const files = fs.readdirSync(migrationsDir);
-      const migrationFiles = files
-        .filter(f => /^\d{4}_.*\.ts$/.test(f))
-        .sort();
+      // Load migrations
+      const loaded = await loadMigrations(migrationsDir);
 
-      if (migrationFiles.length === 0) {
+      if (loaded.length === 0) {
         console.error('❌ No migration files found');
         process.exit(1);
       }
 
-      // Parse migration IDs from filenames
-      const toSquash = migrationFiles.filter(f => {
-        const match = f.match(/^(\d{4})_/);
-        return match && parseInt(match[1], 10) <= cutoffId;
-      });
-
-      const toKeep = migrationFiles.filter(f => {
-        const match = f.match(/^(\d{4})_/);
-        return match && parseInt(match[1], 10) > cutoffId;
-      });
+      const toSquash = loaded.filter(l => l.migration.id <= cutoffId);
+      const toKeep = loaded.filter(l => l.migration.id > cutoffId);
 
       if (toSquash.length === 0) {
         console.error(`❌ No migrations found up to ID ${cutoffId}`);
@@ -277,37 +466,69 @@ program
       }
 
       console.log(`\nMigrations to squash (${toSquash.length}):`);
-      toSquash.forEach(f => console.log(`  - ${f}`));
+      toSquash.forEach(l => console.log(`  - ${l.file}`));
       
       if (toKeep.length > 0) {
         console.log(`\nMigrations to keep (${toKeep.length}):`);
-        toKeep.forEach(f => console.log(`  - ${f}`));
+        toKeep.forEach(l => console.log(`  - ${l.file}`));
+      }
+
+      const migrations = loaded.map(l => l.migration);
+      const { baseMigration, remainingMigrations } = squashMigrations(migrations, { cutoffId, baseName: 'base' });
+      console.log('\nBase migration schema:');
+      Object.entries(baseMigration.stores ?? {}).forEach(([table, schema]) => {
+        console.log(`  ${table}: '${schema}'`);
+      });
+
+      const { warnings } = validateSquash(migrations, cutoffId);
+
+      if (warnings.length > 0) {
+        console.log('\n⚠ Warnings:');
+        warnings.forEach(w => console.log(`  - ${w}`));
       }
 
+      // The base keeps the ID of the last squashed migration, so later
+      // migrations keep theirs and database versions never go down
+      const outputDir = path.resolve(process.cwd(), options.output);
+      const archiveDir = path.join(migrationsDir, 'archived');
+      const baseFile = path.join(outputDir, `${String(baseMigration.id).padStart(4, '0')}_base.ts`);
+
+      console.log('\nSquashing will:');
+      console.log(`  1. Write ${path.relative(process.cwd(), baseFile)} (replaces ${baseMigration.replaces!.join(', ')})`);
+      console.log(`  2. Move ${toSquash.length} migration(s) to ${path.relative(process.cwd(), archiveDir)}/`);
+      console.log(`  3. Update ${options.snapshot}`);
+
       if (options.dryRun) {
         console.log('\n[DRY RUN] No changes made');
         console.log('Remove --dry-run to proceed with squashing');
         return;
       }
 
-      // For actual implementation, we would:
-      // 1. Parse migration files to extract schema definitions
-      // 2. Combine them using squashMigrations()
-      // 3. Generate new base migration file
-      // 4. Create backup of old migrations
-      // 5. Delete old migration files
-      
-      console.log('\n⚠ Warning: This is a destructive operation');
-      console.log('Squashing will:');
-      console.log('  1. Create a new base migration file');
-      console.log('  2. Move old migrations to a backup folder');
-      console.log('  3. Update migration numbering');
-      console.log('\nTo proceed, you would need to:');
-      console.log('  1. Ensure all production instances are at the latest version');
-      console.log('  2. Create a database backup');
-      console.log('  3. Test the squashed migration in a development environment');
-      console.log('\nFor safety, manual squashing is recommended.');
-      console.log('See documentation for the squashing procedure.');
+      // Check everything before touching any file
+      const archived = toSquash.filter(l => fs.existsSync(path.join(archiveDir, l.file)));
+      if (archived.length > 0) {
+        console.error(`❌ Already archived: ${archived.map(l => l.file).join(', ')} (move or rename them first)`);
+        process.exit(1);
+      }
+
+      if (fs.existsSync(baseFile) && !toSquash.some(l => path.join(migrationsDir, l.file) === baseFile)) {
+        console.error(`❌ ${baseFile} already exists`);
+        process.exit(1);
+      }
+
+      fs.mkdirSync(archiveDir, { recursive: true });
+      toSquash.forEach(l => fs.renameSync(path.join(migrationsDir, l.file), path.join(archiveDir, l.file)));
+      console.log(`\n✓ Archived ${toSquash.length} migration(s)`);
+
+      fs.mkdirSync(outputDir, { recursive: true });
+      fs.writeFileSync(baseFile, generateSquashedMigrationFile(baseMigration));
+      console.log(`✓ Created ${path.relative(process.cwd(), baseFile)}`);
+
+      saveSnapshotToFile(await createSnapshotFromMigrations([baseMigration, ...remainingMigrations]), options.snapshot);
+      console.log(`✓ Snapshot saved to ${options.snapshot}`);
+
+      console.log('\nDatabases that applied only some of the squashed migrations need the');
+      console.log('archived originals: pass them to runMigrations as the replacedMigrations option.');
       
     } catch (error) {
       console.error('❌ Failed to squash migrations:', error instanceof Error ? error.message : error);
@@ -333,48 +554,28 @@ program
         process.exit(1);
       }
 
-      // Load migration files
-      const files = fs.readdirSync(migrationsDir);
-      const migrationFiles = files
-        .filter(f => /^\d{4}_.*\.ts$/.test(f))
-        .sort();
+      // Load migrations
+      const loaded = await loadMigrations(migrationsDir);
 
-      if (migrationFiles.length === 0) {
+      if (loaded.length === 0) {
         console.error('❌ No migration files found');
         process.exit(1);
       }
 
-      console.log(`\nSchema based on ${migrationFiles.length} migration(s):\n`);
+      console.log(`\nSchema based on ${loaded.length} migration(s):\n`);
       
-      // Parse and display migration file names and numbers
-      const migrations: Array<{id: number, name: string, file: string}> = [];
-      
-      for (const file of migrationFiles) {
-        const match = file.match(/^(\d{4})_\d+_(.+)\.ts$/);
-        if (match) {
-          migrations.push({
-            id: parseInt(match[1], 10),
-            name: match[2],
-            file: file
-          });
-        }
-      }
+      const schema = computeExpectedSchema(loaded.map(l => l.migration));
 
       if (options.format === 'json') {
-        console.log(JSON.stringify({ migrations }, null, 2));
+        console.log(JSON.stringify({ tables: schema }, null, 2));
       } else {
         // Table format
-        console.log('ID    | Name                           | File');
-        console.log('------|--------------------------------|' + '-'.repeat(40));
+        console.log('Table                          | Schema');
+        console.log('-------------------------------|' + '-'.repeat(40));
         
-        migrations.forEach(m => {
-          const idStr = String(m.id).padEnd(5);
-          const nameStr = m.name.padEnd(30);
-          console.log(`${idStr} | ${nameStr} | ${m.file}`);
+        Object.entries(schema).forEach(([table, stores]) => {
+          console.log(`${table.padEnd(30)} | ${stores}`);
         });
-        
-        console.log('\nNote: This shows migration files. For actual database schema,');
-        console.log('use the runtime API: createSnapshot(db, migrations)');
       }
       
     } catch (error) {
@@ -383,4 +584,19 @@ program
     }
   });
 
+/**
+ * Turn a description into a migration name
+ */
+function sanitizeMigrationName(description: string): string {
+  return description.replace(/[^a-z0-9_]/gi, '_').toLowerCase();
+}
+
+/**
+ * File name for a new migration: `NNNN_<timestamp>_<name>.ts`
+ */
+function migrationFileName(id: number, name: string): string {
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  return `${String(id).padStart(4, '0')}_${timestamp}_${name}.ts`;
+}
+
 program.parse();
@@ -1,10 +1,20 @@
 /**
  * Multi-tab coordination for safe migrations
  * 
- * Uses BroadcastChannel API to coordinate migrations across browser tabs.
+ * Uses the Web Locks API (where available) or BroadcastChannel to coordinate
+ * migrations across browser tabs, and BroadcastChannel to notify other tabs.
  * Ensures only one tab runs migrations at a time and others wait.
+ *
+ * Both APIs are also available in dedicated, shared and service workers, so
+ * the same coordination works across every context that opens the database.
+ * "Tab" below means any such context.
  */
 
+import { LeaderMigrationError, LockTimeoutError, MigrationError } from './errors';
+import type { MigrationPhase } from './errors';
+import { hasPendingMigrations, openMigratedDatabase, runMigrations } from './runtime';
+import type { Migration, MigrationOptions, MigrationResult } from './types';
+
 /**
  * Lock state for migration coordination
  */
@@ -14,17 +24,71 @@ interface MigrationLock {
   dbName: string;
 }
 
+/**
+ * Kind of JavaScript context a coordinator runs in
+ */
+export type ContextType = 'window' | 'dedicated-worker' | 'shared-worker' | 'service-worker' | 'unknown';
+
 /**
  * Message types for tab coordination
+ *
+ * Every message carries the context type of its sender, since windows,
+ * workers and service workers share the same channel.
+ */
+export type CoordinationMessage =
+  | { type: 'lock_acquired'; tabId: string; context: ContextType; dbName: string }
+  | { type: 'lock_released'; tabId: string; context: ContextType; dbName: string }
+  | { type: 'migration_started'; tabId: string; context: ContextType; dbName: string }
+  | { type: 'migration_completed'; tabId: string; context: ContextType; dbName: string }
+  | {
+      type: 'migration_failed';
+      tabId: string;
+      context: ContextType;
+      dbName: string;
+      error: string;
+      errorName?: string;
+      phase?: MigrationPhase;
+      migrationId?: number;
+      migrationName?: string;
+    }
+  | { type: 'lock_stolen'; tabId: string; context: ContextType; dbName: string; previousTabId: string }
+  | { type: 'heartbeat'; tabId: string; context: ContextType; dbName: string; acquiredAt: number }
+  | { type: 'ping'; tabId: string; context: ContextType }
+  | { type: 'pong'; tabId: string; context: ContextType; hasLock: boolean; acquiredAt?: number };
+
+/**
+ * Result of waiting for the lock: either this tab leads the migration, or
+ * another tab finished it (successfully or not) first
+ */
+export type LockWaitOutcome =
+  | { role: 'leader' }
+  | {
+      role: 'follower';
+      /** Unset when the database was found already migrated */
+      leaderTabId?: string;
+      failure?: Extract<CoordinationMessage, { type: 'migration_failed' }>;
+    };
+
+/**
+ * Passed to the function run by runWithCoordination
+ */
+export interface CoordinationContext {
+  /** 'other-tab' when another tab already ran the migrations */
+  ranBy: 'this-tab' | 'other-tab';
+  /** Tab that ran the migrations, if known */
+  leaderTabId?: string;
+}
+
+/**
+ * How the migration lock is implemented
+ *
+ * - `web-locks`: `navigator.locks`, with true mutual exclusion and automatic
+ *   release when the holding tab dies
+ * - `broadcast-channel`: ping other tabs over BroadcastChannel and assume the
+ *   lock is free if nobody claims it within 100ms
+ * - `auto`: `web-locks` when available, otherwise `broadcast-channel`
  */
-type CoordinationMessage =
-  | { type: 'lock_acquired'; tabId: string; dbName: string }
-  | { type: 'lock_released'; tabId: string; dbName: string }
-  | { type: 'migration_started'; tabId: string; dbName: string }
-  | { type: 'migration_completed'; tabId: string; dbName: string }
-  | { type: 'migration_failed'; tabId: string; dbName: string; error: string }
-  | { type: 'ping'; tabId: string }
-  | { type: 'pong'; tabId: string };
+export type LockStrategy = 'auto' | 'web-locks' | 'broadcast-channel';
 
 /**
  * Options for multi-tab coordinator
@@ -36,27 +100,104 @@ export interface CoordinatorOptions {
   verbose?: boolean;
   /** Channel name (defaults to dexie-migrate-{dbName}) */
   channelName?: string;
+  /** Lock implementation (defaults to 'auto') */
+  lockStrategy?: LockStrategy;
+  /** Interval between heartbeats sent by the lock holder in milliseconds (defaults to 1000) */
+  heartbeatInterval?: number;
+  /**
+   * Time without a heartbeat after which another tab's lock is considered
+   * stale and taken over, in milliseconds (defaults to 5000)
+   */
+  staleLockTimeout?: number;
+  /** Context this coordinator runs in (detected by default) */
+  contextType?: ContextType;
+  /**
+   * Contexts allowed to run migrations (defaults to all). Other contexts wait
+   * for a leader to broadcast migration_completed instead of taking the lock,
+   * e.g. `['window']` keeps service workers from migrating the database.
+   */
+  leaderContexts?: ContextType[];
 }
 
+/**
+ * Options for runWithCoordination
+ */
+export interface RunWithCoordinationOptions extends CoordinatorOptions {
+  /**
+   * Resolves true when the database needs no migrations. Lets contexts that
+   * may not lead proceed without waiting for a leader that will never come.
+   */
+  isMigrated?: () => Promise<boolean>;
+}
+
+/**
+ * Detect the kind of context the code is running in
+ */
+export function detectContextType(): ContextType {
+  const scope = globalThis as typeof globalThis & {
+    ServiceWorkerGlobalScope?: unknown;
+    SharedWorkerGlobalScope?: unknown;
+    DedicatedWorkerGlobalScope?: unknown;
+    window?: unknown;
+    document?: unknown;
+  };
+
+  if (typeof scope.ServiceWorkerGlobalScope === 'function' && scope instanceof scope.ServiceWorkerGlobalScope) {
+    return 'service-worker';
+  }
+  if (typeof scope.SharedWorkerGlobalScope === 'function' && scope instanceof scope.SharedWorkerGlobalScope) {
+    return 'shared-worker';
+  }
+  if (typeof scope.DedicatedWorkerGlobalScope === 'function' && scope instanceof scope.DedicatedWorkerGlobalScope) {
+    return 'dedicated-worker';
+  }
+  if (typeof scope.window !== 'undefined' && typeof scope.document !== 'undefined') {
+    return 'window';
+  }
+
+  return 'unknown';
+}
+
+const CONTEXT_ID_PREFIXES: Record<ContextType, string> = {
+  'window': 'tab',
+  'dedicated-worker': 'worker',
+  'shared-worker': 'shared-worker',
+  'service-worker': 'sw',
+  'unknown': 'ctx'
+};
+
 /**
  * Multi-tab migration coordinator
  */
 export class MigrationCoordinator {
   private channel: BroadcastChannel | null = null;
   private tabId: string;
+  private contextType: ContextType;
   private dbName: string;
   private lock: MigrationLock | null = null;
   private options: Required<CoordinatorOptions>;
   private listeners: Map<string, Set<(msg: CoordinationMessage) => void>> = new Map();
+  private lockStrategy: Exclude<LockStrategy, 'auto'>;
+  private releaseWebLock: (() => void) | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  /** Last known lock holder in another tab and when it was last heard from */
+  private lockHolder: { tabId: string; lastSeen: number } | null = null;
 
   constructor(dbName: string, options: CoordinatorOptions = {}) {
     this.dbName = dbName;
+    this.contextType = options.contextType ?? detectContextType();
     this.tabId = this.generateTabId();
     this.options = {
       lockTimeout: options.lockTimeout ?? 30000,
       verbose: options.verbose ?? false,
-      channelName: options.channelName ?? `dexie-migrate-${dbName}`
+      channelName: options.channelName ?? `dexie-migrate-${dbName}`,
+      lockStrategy: options.lockStrategy ?? 'auto',
+      heartbeatInterval: options.heartbeatInterval ?? 1000,
+      staleLockTimeout: options.staleLockTimeout ?? 5000,
+      contextType: this.contextType,
+      leaderContexts: options.leaderContexts ?? ['window', 'dedicated-worker', 'shared-worker', 'service-worker', 'unknown']
     };
+    this.lockStrategy = this.resolveLockStrategy(this.options.lockStrategy);
 
     if (typeof BroadcastChannel !== 'undefined') {
       this.initChannel();
@@ -65,6 +206,32 @@ export class MigrationCoordinator {
     }
   }
 
+  /**
+   * Pick the lock implementation, falling back when Web Locks are unavailable
+   */
+  private resolveLockStrategy(strategy: LockStrategy): Exclude<LockStrategy, 'auto'> {
+    const hasWebLocks = typeof navigator !== 'undefined' && !!navigator.locks;
+
+    if (strategy === 'broadcast-channel') {
+      return strategy;
+    }
+    if (hasWebLocks) {
+      return 'web-locks';
+    }
+
+    if (strategy === 'web-locks' && this.options.verbose) {
+      console.warn('[dexie-migrate] Web Locks API not available, falling back to BroadcastChannel');
+    }
+    return 'broadcast-channel';
+  }
+
+  /**
+   * Name of the Web Lock guarding migrations of this database
+   */
+  private get webLockName(): string {
+    return `${this.options.channelName}:lock`;
+  }
+
   /**
    * Initialize BroadcastChannel for communication
    */
@@ -78,19 +245,68 @@ export class MigrationCoordinator {
         console.log(`[dexie-migrate:${this.tabId}] Received:`, msg);
       }
 
-      // Notify listeners
-      const listeners = this.listeners.get(msg.type);
-      if (listeners) {
-        listeners.forEach(listener => listener(msg));
-      }
+      this.handleLockMessage(msg);
+      this.notifyListeners(msg);
     };
   }
 
+  /**
+   * Track the lock holder from incoming messages and answer pings
+   */
+  private handleLockMessage(msg: CoordinationMessage): void {
+    switch (msg.type) {
+      case 'ping':
+        if (this.hasLock()) {
+          this.broadcast({
+            type: 'pong',
+            tabId: this.tabId,
+            context: this.contextType,
+            hasLock: true,
+            acquiredAt: this.lock!.acquiredAt
+          });
+        }
+        break;
+      case 'pong':
+        if (msg.hasLock) {
+          this.lockHolder = { tabId: msg.tabId, lastSeen: Date.now() };
+        }
+        break;
+      case 'lock_acquired':
+      case 'heartbeat':
+        this.lockHolder = { tabId: msg.tabId, lastSeen: Date.now() };
+        break;
+      case 'lock_released':
+        if (this.lockHolder?.tabId === msg.tabId) {
+          this.lockHolder = null;
+        }
+        break;
+      case 'lock_stolen':
+        this.lockHolder = { tabId: msg.tabId, lastSeen: Date.now() };
+        // This tab was presumed dead; give up the lock it thought it held
+        if (msg.previousTabId === this.tabId && this.lock) {
+          this.lock = null;
+          this.stopHeartbeat();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Call local listeners for a message
+   */
+  private notifyListeners(msg: CoordinationMessage): void {
+    const listeners = this.listeners.get(msg.type);
+    if (listeners) {
+      listeners.forEach(listener => listener(msg));
+    }
+  }
+
   /**
    * Generate unique tab ID
    */
   private generateTabId(): string {
-    return `tab-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    const prefix = CONTEXT_ID_PREFIXES[this.contextType];
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
   }
 
   /**
@@ -130,22 +346,60 @@ export class MigrationCoordinator {
    * Try to acquire migration lock
    */
   async acquireLock(): Promise<boolean> {
+    if (this.hasLock()) {
+      return true;
+    }
+
+    if (this.lockStrategy === 'web-locks') {
+      const acquired = await this.requestWebLock({ ifAvailable: true });
+      if (!acquired && this.options.verbose) {
+        console.log(`[dexie-migrate:${this.tabId}] Another tab has the lock, waiting...`);
+      }
+      return acquired;
+    }
+
     if (!this.channel) {
       // No coordination available, assume we have the lock
       return true;
     }
 
     // Check if another tab already has the lock
-    const hasActiveLock = await this.checkForActiveLock();
+    const holder = await this.checkForActiveLock();
     
-    if (hasActiveLock) {
+    if (holder && Date.now() - holder.lastSeen <= this.options.staleLockTimeout) {
       if (this.options.verbose) {
         console.log(`[dexie-migrate:${this.tabId}] Another tab has the lock, waiting...`);
       }
       return false;
     }
 
-    // Acquire the lock
+    this.markLockAcquired();
+
+    if (holder) {
+      // The holder stopped sending heartbeats; take the lock over
+      const stolen: CoordinationMessage = {
+        type: 'lock_stolen',
+        tabId: this.tabId,
+        context: this.contextType,
+        dbName: this.dbName,
+        previousTabId: holder.tabId
+      };
+      this.lockHolder = null;
+      this.broadcast(stolen);
+      this.notifyListeners(stolen);
+
+      if (this.options.verbose) {
+        console.warn(`[dexie-migrate:${this.tabId}] Took over stale lock from ${holder.tabId}`);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Record that this tab holds the lock and tell the other tabs
+   */
+  private markLockAcquired(): void {
     this.lock = {
       tabId: this.tabId,
       acquiredAt: Date.now(),
@@ -155,10 +409,65 @@ export class MigrationCoordinator {
     this.broadcast({
       type: 'lock_acquired',
       tabId: this.tabId,
+      context: this.contextType,
       dbName: this.dbName
     });
 
-    return true;
+    this.startHeartbeat();
+  }
+
+  /**
+   * Periodically tell other tabs that the lock holder is still alive
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.lock) {
+        this.broadcast({
+          type: 'heartbeat',
+          tabId: this.tabId,
+          context: this.contextType,
+          dbName: this.dbName,
+          acquiredAt: this.lock.acquiredAt
+        });
+      }
+    }, this.options.heartbeatInterval);
+  }
+
+  /**
+   * Stop sending heartbeats
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Request the Web Lock and hold it until releaseLock() is called
+   *
+   * Resolves to false when the lock is taken (`ifAvailable`) or the request
+   * is aborted through `signal`.
+   */
+  private requestWebLock(options: LockOptions): Promise<boolean> {
+    return new Promise((resolve) => {
+      navigator.locks.request(this.webLockName, options, (lock) => {
+        if (!lock) {
+          resolve(false);
+          return;
+        }
+
+        this.markLockAcquired();
+        resolve(true);
+
+        // The lock is held until this promise settles (or the tab dies)
+        return new Promise<void>((release) => {
+          this.releaseWebLock = release;
+        });
+      }).catch(() => resolve(false));
+    });
   }
 
   /**
@@ -169,51 +478,62 @@ export class MigrationCoordinator {
       this.broadcast({
         type: 'lock_released',
         tabId: this.tabId,
+        context: this.contextType,
         dbName: this.dbName
       });
       
       this.lock = null;
     }
+
+    this.stopHeartbeat();
+
+    if (this.releaseWebLock) {
+      this.releaseWebLock();
+      this.releaseWebLock = null;
+    }
   }
 
   /**
    * Check if another tab has an active lock
+   *
+   * Pings the other tabs and gives a live holder 100ms to answer. Returns the
+   * known holder (which may be stale) or null if the lock looks free.
    */
-  private async checkForActiveLock(): Promise<boolean> {
-    return new Promise((resolve) => {
-      let responseReceived = false;
-
-      const onLockAcquired = (msg: CoordinationMessage) => {
-        if (msg.type === 'lock_acquired' && msg.tabId !== this.tabId) {
-          responseReceived = true;
-          this.off('lock_acquired', onLockAcquired);
-          resolve(true);
-        }
-      };
-
-      this.on('lock_acquired', onLockAcquired);
+  private async checkForActiveLock(): Promise<{ tabId: string; lastSeen: number } | null> {
+    // Send ping to discover other tabs
+    this.broadcast({ type: 'ping', tabId: this.tabId, context: this.contextType });
 
-      // Send ping to discover other tabs
-      this.broadcast({ type: 'ping', tabId: this.tabId });
+    // Wait for responses
+    await new Promise(resolve => setTimeout(resolve, 100));
 
-      // Wait for responses
-      setTimeout(() => {
-        this.off('lock_acquired', onLockAcquired);
-        if (!responseReceived) {
-          resolve(false);
-        }
-      }, 100);
-    });
+    return this.lockHolder;
   }
 
   /**
    * Wait for lock to become available
    */
-  async waitForLock(timeout?: number): Promise<boolean> {
+  async waitForLock(timeout?: number, signal?: AbortSignal): Promise<boolean> {
     const maxWait = timeout ?? this.options.lockTimeout;
+
+    if (this.lockStrategy === 'web-locks') {
+      if (this.hasLock()) {
+        return true;
+      }
+
+      // Queue for the lock instead of polling; abort the request on timeout
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), maxWait);
+      signal?.addEventListener('abort', () => controller.abort());
+      try {
+        return await this.requestWebLock({ signal: controller.signal });
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
     const startTime = Date.now();
 
-    while (Date.now() - startTime < maxWait) {
+    while (Date.now() - startTime < maxWait && !signal?.aborted) {
       const acquired = await this.acquireLock();
       
       if (acquired) {
@@ -227,6 +547,79 @@ export class MigrationCoordinator {
     return false;
   }
 
+  /**
+   * Wait for the lock, or for another tab to finish migrating
+   *
+   * Followers return as soon as the lock holder broadcasts migration_completed
+   * or migration_failed, instead of taking the lock and migrating again.
+   * Contexts excluded by `leaderContexts` never take the lock; they only wait
+   * for a leader, unless `isMigrated` reports there is nothing to wait for.
+   * Returns null if neither happens within the timeout.
+   */
+  async waitForLockOrLeader(
+    timeout?: number,
+    isMigrated?: () => Promise<boolean>
+  ): Promise<LockWaitOutcome | null> {
+    const controller = new AbortController();
+    let leaderFinished!: (outcome: LockWaitOutcome) => void;
+    const leaderOutcome = new Promise<LockWaitOutcome>(resolve => {
+      leaderFinished = resolve;
+    });
+
+    const onLeaderMessage = (msg: CoordinationMessage) => {
+      if (msg.type === 'migration_completed') {
+        leaderFinished({ role: 'follower', leaderTabId: msg.tabId });
+      } else if (msg.type === 'migration_failed') {
+        leaderFinished({ role: 'follower', leaderTabId: msg.tabId, failure: msg });
+      }
+    };
+    this.on('migration_completed', onLeaderMessage);
+    this.on('migration_failed', onLeaderMessage);
+
+    try {
+      if (!this.canLead()) {
+        if (this.options.verbose) {
+          console.log(`[dexie-migrate:${this.tabId}] ${this.contextType} context may not run migrations, waiting for a leader`);
+        }
+
+        // Checked after subscribing, so a leader finishing meanwhile is not missed
+        if (await isMigrated?.()) {
+          return { role: 'follower' };
+        }
+
+        let timer!: ReturnType<typeof setTimeout>;
+        const expired = new Promise<null>(resolve => {
+          timer = setTimeout(() => resolve(null), timeout ?? this.options.lockTimeout);
+        });
+        try {
+          return await Promise.race([leaderOutcome, expired]);
+        } finally {
+          clearTimeout(timer);
+        }
+      }
+
+      const lockOutcome = this.waitForLock(timeout, controller.signal)
+        .then((acquired): LockWaitOutcome | null => (acquired ? { role: 'leader' } : null));
+
+      const outcome = await Promise.race([lockOutcome, leaderOutcome]);
+
+      if (outcome?.role === 'follower') {
+        // Stop waiting; give the lock back if it was granted in the meantime
+        controller.abort();
+        lockOutcome.then(lockResult => {
+          if (lockResult) {
+            this.releaseLock();
+          }
+        });
+      }
+
+      return outcome;
+    } finally {
+      this.off('migration_completed', onLeaderMessage);
+      this.off('migration_failed', onLeaderMessage);
+    }
+  }
+
   /**
    * Notify other tabs that migration has started
    */
@@ -234,6 +627,7 @@ export class MigrationCoordinator {
     this.broadcast({
       type: 'migration_started',
       tabId: this.tabId,
+      context: this.contextType,
       dbName: this.dbName
     });
   }
@@ -245,6 +639,7 @@ export class MigrationCoordinator {
     this.broadcast({
       type: 'migration_completed',
       tabId: this.tabId,
+      context: this.contextType,
       dbName: this.dbName
     });
   }
@@ -256,8 +651,15 @@ export class MigrationCoordinator {
     this.broadcast({
       type: 'migration_failed',
       tabId: this.tabId,
+      context: this.contextType,
       dbName: this.dbName,
-      error: error.message
+      error: error.message,
+      errorName: error.name,
+      ...(error instanceof MigrationError && {
+        phase: error.phase,
+        migrationId: error.migrationId,
+        migrationName: error.migrationName
+      })
     });
   }
 
@@ -282,6 +684,27 @@ export class MigrationCoordinator {
     return this.tabId;
   }
 
+  /**
+   * Get the kind of context this coordinator runs in
+   */
+  getContextType(): ContextType {
+    return this.contextType;
+  }
+
+  /**
+   * Whether this context may run migrations under the `leaderContexts` policy
+   */
+  canLead(): boolean {
+    return this.options.leaderContexts.includes(this.contextType);
+  }
+
+  /**
+   * Get the lock implementation in use
+   */
+  getLockStrategy(): Exclude<LockStrategy, 'auto'> {
+    return this.lockStrategy;
+  }
+
   /**
    * Check if this tab has the lock
    */
@@ -291,40 +714,87 @@ export class MigrationCoordinator {
 }
 
 /**
- * Helper function to run migrations with multi-tab coordination
+ * Run a function with multi-tab coordination
+ *
+ * The tab that gets the lock runs `migrationFn` as the leader. Tabs that are
+ * still waiting when the leader finishes don't take the lock: they rethrow
+ * the leader's failure as a LeaderMigrationError, or call `migrationFn` with
+ * `ranBy: 'other-tab'` so it can just open the migrated database.
  */
 export async function runWithCoordination<T>(
   dbName: string,
-  migrationFn: () => Promise<T>,
-  options: CoordinatorOptions = {}
+  migrationFn: (context: CoordinationContext) => Promise<T>,
+  options: RunWithCoordinationOptions = {}
 ): Promise<T> {
   const coordinator = new MigrationCoordinator(dbName, options);
 
   try {
-    // Try to acquire lock
-    const lockAcquired = await coordinator.waitForLock();
-
-    if (!lockAcquired) {
-      throw new Error(
-        `Failed to acquire migration lock within ${options.lockTimeout ?? 30000}ms. ` +
-        'Another tab may be running migrations.'
-      );
+    const outcome = await coordinator.waitForLockOrLeader(undefined, options.isMigrated);
+
+    if (!outcome) {
+      throw new LockTimeoutError(dbName, options.lockTimeout ?? 30000);
+    }
+
+    if (outcome.role === 'follower') {
+      const { failure, leaderTabId } = outcome;
+
+      if (failure) {
+        throw new LeaderMigrationError(dbName, failure.tabId, failure.error, failure);
+      }
+
+      if (options.verbose) {
+        console.log(`[dexie-migrate:${coordinator.getTabId()}] Migrations were run by ${leaderTabId ?? 'an earlier session'}`);
+      }
+
+      return await migrationFn({ ranBy: 'other-tab', leaderTabId });
     }
 
     // Notify start
     coordinator.notifyMigrationStarted();
 
-    // Run migrations
-    const result = await migrationFn();
+    try {
+      // Run migrations
+      const result = await migrationFn({ ranBy: 'this-tab', leaderTabId: coordinator.getTabId() });
 
-    // Notify completion
-    coordinator.notifyMigrationCompleted();
+      // Notify completion
+      coordinator.notifyMigrationCompleted();
 
-    return result;
-  } catch (error) {
-    coordinator.notifyMigrationFailed(error as Error);
-    throw error;
+      return result;
+    } catch (error) {
+      coordinator.notifyMigrationFailed(error as Error);
+      throw error;
+    }
   } finally {
     coordinator.destroy();
   }
 }
+
+/**
+ * Run migrations in at most one tab at a time
+ *
+ * Followers reuse the leader's run: they open the migrated database without
+ * resuming batch work, and get a result with `ranBy: 'other-tab'`.
+ */
+export async function runMigrationsWithCoordination(
+  dbName: string,
+  migrations: Migration[],
+  options: MigrationOptions & { coordination?: CoordinatorOptions } = {}
+): Promise<MigrationResult> {
+  const { coordination, ...migrationOptions } = options;
+
+  return runWithCoordination(
+    dbName,
+    async ({ ranBy, leaderTabId }) => {
+      const result = ranBy === 'this-tab'
+        ? await runMigrations(dbName, migrations, migrationOptions)
+        : await openMigratedDatabase(dbName, migrations, migrationOptions);
+
+      return { ...result, ranBy, leaderTabId };
+    },
+    {
+      verbose: options.verbose,
+      isMigrated: async () => !(await hasPendingMigrations(dbName, migrations, options.dexieOptions)),
+      ...coordination
+    }
+  );
+}
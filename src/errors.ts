@@ -0,0 +1,341 @@
+import type { Migration } from './types';
+
+/**
+ * Stage of the migration lifecycle an error was raised in
+ */
+export type MigrationPhase =
+  | 'definition'
+  | 'up'
+  | 'validateAfter'
+  | 'batch'
+  | 'open'
+  | 'lock'
+  | 'down';
+
+/**
+ * Structured details shared by every migration error
+ */
+export interface MigrationErrorDetails {
+  phase: MigrationPhase;
+  migration?: Pick<Migration, 'id' | 'name'>;
+  cause?: unknown;
+  recovery?: string[];
+}
+
+/**
+ * Base class for all errors thrown by dexie-migrate
+ *
+ * Error reporting can switch on the subclass or on `phase` instead of
+ * matching message strings.
+ */
+export class MigrationError extends Error {
+  /** ID of the migration involved, if any */
+  readonly migrationId?: number;
+  /** Name of the migration involved, if any */
+  readonly migrationName?: string;
+  /** Lifecycle stage the error was raised in */
+  readonly phase: MigrationPhase;
+  /** Underlying error, e.g. the exception thrown by up() */
+  readonly cause?: unknown;
+  /** Suggested steps to recover */
+  readonly recovery: string[];
+
+  constructor(message: string, details: MigrationErrorDetails) {
+    super(message);
+    this.name = 'MigrationError';
+    this.migrationId = details.migration?.id;
+    this.migrationName = details.migration?.name;
+    this.phase = details.phase;
+    this.cause = details.cause;
+    this.recovery = details.recovery ?? [];
+  }
+}
+
+/**
+ * Thrown when a migration object is malformed (bad id, name, batch step, ...)
+ */
+export class InvalidMigrationDefinitionError extends MigrationError {
+  /** Position of the offending migration in the supplied array, if known */
+  readonly index?: number;
+
+  constructor(
+    message: string,
+    migration?: Pick<Migration, 'id' | 'name'>,
+    index?: number,
+    recovery: string[] = ['Fix the migration definition; see the Migration interface for the expected shape']
+  ) {
+    super(message, {
+      phase: 'definition',
+      migration,
+      recovery
+    });
+    this.name = 'InvalidMigrationDefinitionError';
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when two migrations share the same ID
+ */
+export class DuplicateMigrationIdError extends MigrationError {
+  readonly duplicateIds: number[];
+
+  constructor(duplicateIds: number[]) {
+    super(`Duplicate migration IDs detected: ${duplicateIds.join(', ')}`, {
+      phase: 'definition',
+      recovery: [
+        'Give every migration a unique ID matching its filename prefix',
+        'Check for merge conflicts that produced two migrations with the same number'
+      ]
+    });
+    this.name = 'DuplicateMigrationIdError';
+    this.duplicateIds = duplicateIds;
+  }
+}
+
+/**
+ * Thrown when a migration's up() function or batch step throws
+ */
+export class MigrationUpError extends MigrationError {
+  constructor(migration: Migration, phase: 'up' | 'batch', cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migration.id} (${migration.name}) failed during ${phase}: ${reason}`, {
+      phase,
+      migration,
+      cause,
+      recovery: phase === 'batch'
+        ? ['Fix the batch step; the next run resumes from the last checkpoint']
+        : ['Fix the up() function; the upgrade was rolled back and will be retried on the next launch']
+    });
+    this.name = 'MigrationUpError';
+  }
+}
+
+/**
+ * Thrown when validateAfter() returns false
+ */
+export class MigrationValidationError extends MigrationError {
+  constructor(migration: Migration) {
+    super(`Migration ${migration.id} validation failed`, {
+      phase: 'validateAfter',
+      migration,
+      recovery: [
+        'Check the data written by up() against the validateAfter() expectations',
+        'The migration was not recorded and will be retried on the next launch'
+      ]
+    });
+    this.name = 'MigrationValidationError';
+  }
+}
+
+/**
+ * Thrown when an applied migration's definition has changed since it was applied
+ */
+export class ChecksumMismatchError extends MigrationError {
+  /** Checksum recorded in `_dexie_migrations` when the migration was applied */
+  readonly recordedChecksum: string;
+  /** Checksum of the migration as currently defined */
+  readonly currentChecksum: string;
+
+  constructor(migration: Pick<Migration, 'id' | 'name'>, recordedChecksum: string, currentChecksum: string) {
+    super(
+      `Migration ${migration.id} (${migration.name}) was modified after it was applied ` +
+      `(checksum ${recordedChecksum} → ${currentChecksum})`,
+      {
+        phase: 'definition',
+        migration,
+        recovery: [
+          'Revert the change to the applied migration and add a new migration instead',
+          'Set checksumValidation to "warn" or "off" if the change is known to be harmless'
+        ]
+      }
+    );
+    this.name = 'ChecksumMismatchError';
+    this.recordedChecksum = recordedChecksum;
+    this.currentChecksum = currentChecksum;
+  }
+}
+
+/**
+ * Thrown when the installed database is at a higher version than the migrations describe
+ */
+export class VersionMismatchError extends MigrationError {
+  /** Version of the database on disk */
+  readonly installedVersion: number;
+  /** Highest version implied by the supplied migrations */
+  readonly expectedVersion: number;
+
+  constructor(dbName: string, installedVersion: number, expectedVersion: number, cause?: unknown) {
+    super(
+      `Database ${dbName} is at version ${installedVersion}, ` +
+      `but the supplied migrations only reach version ${expectedVersion}`,
+      {
+        phase: 'open',
+        cause,
+        recovery: [
+          'Make sure every migration that was ever shipped is still in the migrations list',
+          'Squashed or renumbered migrations must keep an ID at least as high as the last one shipped',
+          'If this build is older than the one that created the database, update the app',
+          'As a last resort, delete the database and let it be recreated'
+        ]
+      }
+    );
+    this.name = 'VersionMismatchError';
+    this.installedVersion = installedVersion;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+/**
+ * Thrown when a database applied only part of the migrations a squashed
+ * migration replaces, and the archived originals were not supplied
+ */
+export class PartialSquashError extends MigrationError {
+  /** Replaced migration IDs the database has not applied */
+  readonly missingIds: number[];
+
+  constructor(dbName: string, migration: Pick<Migration, 'id' | 'name'>, missingIds: number[]) {
+    super(
+      `Database ${dbName} applied only part of the migrations squashed into ` +
+      `migration ${migration.id} (${migration.name}); missing ${missingIds.join(', ')}`,
+      {
+        phase: 'open',
+        migration,
+        recovery: [
+          'Pass the archived original migrations as the replacedMigrations option so they can be replayed',
+          'Otherwise only squash migrations that every deployed database has already applied'
+        ]
+      }
+    );
+    this.name = 'PartialSquashError';
+    this.missingIds = missingIds;
+  }
+}
+
+/**
+ * Thrown when an upgrade stays blocked by other open connections past blockedTimeout
+ */
+export class UpgradeBlockedError extends MigrationError {
+  readonly dbName: string;
+  readonly timeout: number;
+
+  constructor(dbName: string, timeout: number) {
+    super(
+      `Upgrade of database ${dbName} was blocked by another open connection for ${timeout}ms`,
+      {
+        phase: 'open',
+        recovery: [
+          'Close or reload other tabs that have the app open',
+          'Make sure other connections close on versionchange (the default for databases returned by runMigrations)'
+        ]
+      }
+    );
+    this.name = 'UpgradeBlockedError';
+    this.dbName = dbName;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when the cross-tab migration lock cannot be acquired in time
+ */
+export class LockTimeoutError extends MigrationError {
+  readonly dbName: string;
+  readonly timeout: number;
+
+  constructor(dbName: string, timeout: number) {
+    super(
+      `Failed to acquire migration lock within ${timeout}ms. ` +
+      'Another tab may be running migrations.',
+      {
+        phase: 'lock',
+        recovery: [
+          'Wait for the other tab to finish and reload',
+          'Increase lockTimeout if migrations legitimately take longer'
+        ]
+      }
+    );
+    this.name = 'LockTimeoutError';
+    this.dbName = dbName;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a migration's up() or validateAfter() exceeds Migration.timeout
+ *
+ * The transaction the migration ran in is aborted, so nothing it wrote (including
+ * its `_dexie_migrations` record) is kept and it is retried on the next launch.
+ */
+export class MigrationTimeoutError extends MigrationError {
+  /** Milliseconds the migration ran before it was aborted */
+  readonly elapsed: number;
+  /** Configured timeout in milliseconds */
+  readonly timeout: number;
+
+  constructor(migration: Migration, elapsed: number, timeout: number) {
+    super(`Migration ${migration.id} (${migration.name}) timed out after ${elapsed}ms (timeout ${timeout}ms)`, {
+      phase: 'up',
+      migration,
+      recovery: [
+        'Move long-running work into a batch step so it can be checkpointed',
+        'Raise Migration.timeout if the work legitimately takes longer'
+      ]
+    });
+    this.name = 'MigrationTimeoutError';
+    this.elapsed = elapsed;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown in a follower tab when the tab holding the migration lock reports a failure
+ *
+ * Only the serialized error crosses the BroadcastChannel, so the original
+ * error class is available as `leaderErrorName`.
+ */
+export class LeaderMigrationError extends MigrationError {
+  /** Tab that ran the migrations */
+  readonly leaderTabId: string;
+  /** `name` of the error thrown in the leader tab */
+  readonly leaderErrorName?: string;
+
+  constructor(
+    dbName: string,
+    leaderTabId: string,
+    message: string,
+    details: { errorName?: string; phase?: MigrationPhase; migrationId?: number; migrationName?: string } = {}
+  ) {
+    super(`Migration of database ${dbName} failed in tab ${leaderTabId}: ${message}`, {
+      phase: details.phase ?? 'open',
+      migration: details.migrationId !== undefined
+        ? { id: details.migrationId, name: details.migrationName ?? '' }
+        : undefined,
+      recovery: [
+        'See the error reported in the other tab',
+        'Reload once the failing migration is fixed; the next tab to get the lock will retry it'
+      ]
+    });
+    this.name = 'LeaderMigrationError';
+    this.leaderTabId = leaderTabId;
+    this.leaderErrorName = details.errorName;
+  }
+}
+
+/**
+ * Thrown when rollbackMigrations cannot roll a migration back
+ */
+export class RollbackError extends MigrationError {
+  constructor(message: string, migration?: Pick<Migration, 'id' | 'name'>, cause?: unknown) {
+    super(message, {
+      phase: 'down',
+      migration,
+      cause,
+      recovery: [
+        'Give every migration that changes data a down() function',
+        'Delete the database and migrate from scratch instead'
+      ]
+    });
+    this.name = 'RollbackError';
+  }
+}
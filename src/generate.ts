@@ -0,0 +1,151 @@
+/**
+ * Generate the next migration from a declarative schema
+ *
+ * The desired end state is a StoresMap (usually `schema.ts`). It is diffed
+ * against computeExpectedSchema of the existing migrations, and the new
+ * migration's `stores` holds exactly the added, changed and removed tables.
+ */
+
+import type { Migration, StoresMap } from './types';
+import { computeExpectedSchema, indexSpecsEqual, parseSchemaString } from './snapshot';
+import { lintMigrations } from './lint';
+import type { LintResult } from './lint';
+
+/**
+ * One table that differs between the migrations and the desired schema
+ */
+export interface SchemaChange {
+  table: string;
+  type: 'added' | 'changed' | 'removed';
+  /** Schema the migrations produce (changed and removed tables) */
+  from?: string;
+  /** Desired schema (added and changed tables) */
+  to?: string;
+}
+
+/**
+ * Result of generateMigration
+ */
+export interface GeneratedMigration {
+  /** The next migration, with `stores` set to the changes */
+  migration: Migration;
+  changes: SchemaChange[];
+  /**
+   * lintMigrations findings for the new migration, such as a primary key
+   * change, which needs a data migration rather than a `stores` change
+   */
+  lint: LintResult;
+}
+
+/**
+ * Diff the schema the migrations produce against the desired one
+ *
+ * Schemas are compared index by index, so reordering indexes or whitespace
+ * is not a change. Tables set to `null` in `desired` count as absent.
+ */
+export function diffSchema(current: StoresMap, desired: StoresMap): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  for (const [table, to] of Object.entries(desired)) {
+    if (to === null) continue;
+
+    const from = current[table];
+    if (typeof from !== 'string') {
+      changes.push({ table, type: 'added', to });
+    } else if (!schemasEqual(from, to)) {
+      changes.push({ table, type: 'changed', from, to });
+    }
+  }
+
+  for (const [table, from] of Object.entries(current)) {
+    if (typeof from === 'string' && typeof desired[table] !== 'string') {
+      changes.push({ table, type: 'removed', from });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Build the migration that takes the existing migrations to `desired`
+ *
+ * The new migration gets the next ID after the existing ones. Returns no
+ * `stores` changes when the schemas already match.
+ */
+export function generateMigration(
+  migrations: Migration[],
+  desired: StoresMap,
+  name: string
+): GeneratedMigration {
+  const changes = diffSchema(computeExpectedSchema([...migrations]), desired);
+  const stores: StoresMap = {};
+  for (const change of changes) {
+    stores[change.table] = change.to ?? null;
+  }
+
+  const id = migrations.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+  const migration: Migration = { id, name, stores };
+  const lint = lintMigrations([...migrations, migration]);
+
+  return {
+    migration,
+    changes,
+    lint: {
+      valid: lint.errors.every(e => e.migrationId !== id),
+      errors: lint.errors.filter(e => e.migrationId === id),
+      warnings: lint.warnings.filter(w => w.migrationId === id)
+    }
+  };
+}
+
+/**
+ * Whether two schema strings declare the same primary key and indexes
+ */
+function schemasEqual(a: string, b: string): boolean {
+  const left = parseSchemaString(a);
+  const right = parseSchemaString(b);
+
+  return indexSpecsEqual(left.primaryKey, right.primaryKey) &&
+    left.indexes.length === right.indexes.length &&
+    left.indexes.every(index => {
+      const other = right.indexes.find(i => i.name === index.name);
+      return other !== undefined && indexSpecsEqual(index, other);
+    });
+}
+
+/**
+ * Generate the source of a migration file for a generated migration
+ *
+ * Tables with lint findings get a comment above them explaining what needs
+ * attention before the migration can ship.
+ */
+export function generateMigrationFile(generated: GeneratedMigration): string {
+  const { migration, lint } = generated;
+  const findings = [...lint.errors, ...lint.warnings];
+
+  const storesContent = Object.entries(migration.stores ?? {})
+    .map(([table, schema]) => {
+      const notes = findings
+        .filter(f => f.table === table)
+        .map(f => `    // TODO: ${f.message}\n`)
+        .join('');
+      return `${notes}    ${table}: ${schema === null ? 'null' : `'${schema}'`}`;
+    })
+    .join(',\n');
+
+  return `import type { Migration } from 'dexie-migrate';
+
+/**
+ * Generated from the desired schema
+ * Generated at: ${new Date().toISOString()}
+ */
+export default {
+  id: ${migration.id},
+  name: '${migration.name}',
+
+  stores: {
+${storesContent}
+  }
+} as Migration;
+`;
+}
@@ -1,27 +1,95 @@
 export { runMigrations } from './runtime';
+export { rollbackMigrations } from './rollback';
+export type { RollbackOptions, RollbackResult } from './rollback';
+export { computeMigrationChecksum } from './checksum';
+export type { ChecksumOptions } from './checksum';
 export type { 
   Migration, 
   MigrationOptions, 
   MigrationResult, 
   StoresMap,
-  MigrationRecord 
+  MigrationRecord,
+  MigrationStatus,
+  BatchStep
 } from './types';
 
+export {
+  MigrationError,
+  InvalidMigrationDefinitionError,
+  ChecksumMismatchError,
+  DuplicateMigrationIdError,
+  MigrationUpError,
+  MigrationValidationError,
+  MigrationTimeoutError,
+  VersionMismatchError,
+  UpgradeBlockedError,
+  LockTimeoutError,
+  LeaderMigrationError,
+  RollbackError,
+  PartialSquashError
+} from './errors';
+
+export type {
+  MigrationPhase,
+  MigrationErrorDetails
+} from './errors';
+
 export {
   createSnapshot,
+  createSnapshotFromMigrations,
   saveSnapshotToFile,
   loadSnapshotFromFile,
+  migrateSnapshot,
+  compareSnapshotMigrations,
+  SNAPSHOT_FORMAT_VERSION,
   computeExpectedSchema,
   validateSchema,
-  compareSnapshots
+  compareSnapshots,
+  formatSnapshotDiff,
+  formatTableDiff,
+  detectSchemaDrift,
+  formatSchemaDrift,
+  findSnapshotConflicts,
+  parseSchemaString,
+  indexSpecsEqual,
+  formatIndexSpec
 } from './snapshot';
 
 export type {
   SchemaSnapshot,
+  SnapshotMigration,
+  SnapshotDiff,
+  SnapshotDiffFormat,
+  TableDiff,
+  IndexChange,
   TableSchema,
-  ValidationResult
+  IndexSpec,
+  ValidationResult,
+  SchemaDrift
 } from './snapshot';
 
+export {
+  lintMigrations,
+  formatLintReport
+} from './lint';
+
+export type {
+  LintResult,
+  LintMessage,
+  LintRule
+} from './lint';
+
+export {
+  diffSchema,
+  generateMigration,
+  generateMigrationFile
+} from './generate';
+
+export type {
+  SchemaChange,
+  GeneratedMigration
+} from './generate';
+
 export {
   squashMigrations,
   renumberMigrations,
@@ -36,9 +104,17 @@ export type {
 
 export {
   MigrationCoordinator,
-  runWithCoordination
+  runWithCoordination,
+  runMigrationsWithCoordination,
+  detectContextType
 } from './coordination';
 
 export type {
-  CoordinatorOptions
+  CoordinatorOptions,
+  RunWithCoordinationOptions,
+  ContextType,
+  CoordinationContext,
+  CoordinationMessage,
+  LockStrategy,
+  LockWaitOutcome
 } from './coordination';
@@ -0,0 +1,187 @@
+/**
+ * Static checks for migration `stores` definitions
+ *
+ * lintMigrations walks the migrations in order, tracking the schema each one
+ * builds on with computeExpectedSchema, and reports definitions Dexie or
+ * IndexedDB would reject at runtime, or that can fail on existing data.
+ */
+
+import type { Migration } from './types';
+import { MIGRATIONS_TABLE } from './runtime';
+import { computeExpectedSchema, formatIndexSpec, indexSpecsEqual, parseSchemaString } from './snapshot';
+import type { TableSchema } from './snapshot';
+
+/**
+ * Rules checked by lintMigrations
+ */
+export type LintRule =
+  | 'invalid-schema'
+  | 'duplicate-index'
+  | 'reserved-table'
+  | 'primary-key-change'
+  | 'unique-index-on-existing-table'
+  | 'delete-unknown-table';
+
+/**
+ * A problem found in one migration
+ */
+export interface LintMessage {
+  rule: LintRule;
+  migrationId: number;
+  migrationName: string;
+  /** Table the problem is in */
+  table: string;
+  message: string;
+}
+
+/**
+ * Result of lintMigrations
+ */
+export interface LintResult {
+  /** No errors (warnings are allowed) */
+  valid: boolean;
+  errors: LintMessage[];
+  warnings: LintMessage[];
+}
+
+/**
+ * Check every migration's `stores` against the schema before it
+ *
+ * Errors are definitions that will throw when the migration runs; warnings
+ * are ones that can fail depending on the data already in the database.
+ */
+export function lintMigrations(migrations: Migration[]): LintResult {
+  const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+  const errors: LintMessage[] = [];
+  const warnings: LintMessage[] = [];
+
+  sortedMigrations.forEach((migration, i) => {
+    const previous = computeExpectedSchema(sortedMigrations.slice(0, i));
+
+    for (const [table, schema] of Object.entries(migration.stores ?? {})) {
+      const report = (list: LintMessage[], rule: LintRule, message: string) => {
+        list.push({ rule, migrationId: migration.id, migrationName: migration.name, table, message });
+      };
+
+      if (table === MIGRATIONS_TABLE) {
+        report(errors, 'reserved-table', `'${MIGRATIONS_TABLE}' is reserved for dexie-migrate's own records`);
+        continue;
+      }
+
+      if (schema === null) {
+        if (previous[table] === undefined) {
+          report(warnings, 'delete-unknown-table', 'deletes a table no earlier migration creates');
+        }
+        continue;
+      }
+
+      const parsed = tryParse(schema);
+      if (typeof parsed === 'string') {
+        report(errors, 'invalid-schema', parsed);
+        continue;
+      }
+
+      for (const name of findDuplicateNames(parsed)) {
+        report(errors, 'duplicate-index', `index '${name}' is declared more than once`);
+      }
+      for (const index of parsed.indexes) {
+        if (index.compound && index.multiEntry) {
+          report(errors, 'invalid-schema', `compound index '${index.name}' can't be multi-entry`);
+        }
+      }
+
+      const previousSchema = previous[table];
+      const before = typeof previousSchema === 'string' ? tryParse(previousSchema) : undefined;
+      if (!before || typeof before === 'string') {
+        continue;
+      }
+
+      if (!indexSpecsEqual(before.primaryKey, parsed.primaryKey)) {
+        report(
+          errors,
+          'primary-key-change',
+          `primary key changes from '${formatIndexSpec(before.primaryKey, true)}' to ` +
+          `'${formatIndexSpec(parsed.primaryKey, true)}', which IndexedDB can't do in place. ` +
+          'Copy the rows into a new table and delete the old one instead (see "Change a Primary Key")'
+        );
+      }
+
+      for (const index of parsed.indexes) {
+        const existing = before.indexes.find(i => i.name === index.name);
+        if (index.unique && !existing?.unique) {
+          report(
+            warnings,
+            'unique-index-on-existing-table',
+            `unique index '${index.name}' fails to build if existing rows share a value`
+          );
+        }
+      }
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Parse a schema string, returning the parse error message on failure
+ */
+function tryParse(schema: string): Pick<TableSchema, 'primaryKey' | 'indexes'> | string {
+  try {
+    return parseSchemaString(schema);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Names used by more than one index (or by an index and the primary key)
+ */
+function findDuplicateNames(table: Pick<TableSchema, 'primaryKey' | 'indexes'>): string[] {
+  const seen = new Set<string>([table.primaryKey.name]);
+  const duplicates = new Set<string>();
+
+  for (const index of table.indexes) {
+    if (seen.has(index.name)) {
+      duplicates.add(index.name);
+    }
+    seen.add(index.name);
+  }
+
+  return [...duplicates];
+}
+
+/**
+ * Render a lint result as text, grouped by migration
+ */
+export function formatLintReport(result: LintResult): string {
+  const lines: string[] = [];
+  const byMigration = new Map<number, { name: string; errors: LintMessage[]; warnings: LintMessage[] }>();
+
+  for (const [list, key] of [[result.errors, 'errors'], [result.warnings, 'warnings']] as const) {
+    for (const message of list) {
+      const group = byMigration.get(message.migrationId) ??
+        { name: message.migrationName, errors: [], warnings: [] };
+      group[key].push(message);
+      byMigration.set(message.migrationId, group);
+    }
+  }
+
+  for (const [id, group] of [...byMigration].sort(([a], [b]) => a - b)) {
+    lines.push(`${group.errors.length > 0 ? '✗' : '⚠'} ${id} ${group.name}`);
+    group.errors.forEach(m => lines.push(`    error: ${m.table}: ${m.message}`));
+    group.warnings.forEach(m => lines.push(`    warning: ${m.table}: ${m.message}`));
+  }
+
+  if (lines.length > 0) {
+    lines.push('');
+  }
+  lines.push(byMigration.size === 0
+    ? '✓ No problems found'
+    : `${result.valid ? '⚠' : '✗'} ${result.errors.length} error(s), ${result.warnings.length} warning(s)`);
+
+  return lines.join('\n');
+}
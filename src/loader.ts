@@ -0,0 +1,128 @@
+/**
+ * Load migration modules from a migrations directory (Node only)
+ *
+ * Used by the CLI. Each file must be named `NNNN_<anything>.<ext>` and
+ * export the migration as its default export (or as `migration`).
+ * TypeScript files are bundled with esbuild first; packages they import stay
+ * external and resolve from the migrations directory as usual. The declarative
+ * schema file used by `generate` is loaded the same way.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { Migration, StoresMap } from './types';
+import { InvalidMigrationDefinitionError } from './errors';
+
+/**
+ * Extensions of migration files that can be loaded
+ */
+export const MIGRATION_EXTENSIONS = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+/**
+ * A migration together with the file it was loaded from
+ */
+export interface LoadedMigration {
+  migration: Migration;
+  file: string;
+}
+
+/**
+ * List migration files in a directory, sorted by filename
+ */
+export function findMigrationFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(f => /^\d{4}_/.test(f) && !f.endsWith('.d.ts') && MIGRATION_EXTENSIONS.includes(path.extname(f)))
+    .sort();
+}
+
+/**
+ * Import every migration file in a directory
+ */
+export async function loadMigrations(dir: string): Promise<LoadedMigration[]> {
+  const loaded: LoadedMigration[] = [];
+
+  for (const file of findMigrationFiles(dir)) {
+    const mod = await importMigrationFile(path.resolve(dir, file));
+    const migration = (mod.default ?? mod.migration) as Migration | undefined;
+
+    if (!migration || typeof migration !== 'object' || typeof migration.id !== 'number') {
+      throw new InvalidMigrationDefinitionError(
+        `${file} does not export a migration (expected a default export with an id and name)`
+      );
+    }
+
+    loaded.push({ migration, file });
+  }
+
+  return loaded;
+}
+
+/**
+ * Import a declarative schema file (a StoresMap of the desired tables)
+ *
+ * The schema is the default export, or a named `schema` export.
+ */
+export async function loadSchemaFile(file: string): Promise<StoresMap> {
+  const mod = await importMigrationFile(path.resolve(file));
+  const schema = mod.default ?? mod.schema;
+
+  const isStoresMap = !!schema && typeof schema === 'object' && !Array.isArray(schema) &&
+    Object.values(schema).every(value => typeof value === 'string' || value === null);
+
+  if (!isStoresMap) {
+    throw new InvalidMigrationDefinitionError(
+      `${path.basename(file)} does not export a schema (expected a default export mapping table names to schema strings)`
+    );
+  }
+
+  return schema as StoresMap;
+}
+
+/**
+ * Import a migration file, compiling TypeScript with esbuild
+ */
+async function importMigrationFile(file: string): Promise<Record<string, unknown>> {
+  if (!TYPESCRIPT_EXTENSIONS.includes(path.extname(file))) {
+    return importModule(file);
+  }
+
+  // Loaded lazily so plain JavaScript migrations don't need esbuild
+  const { build } = await import('esbuild');
+  const output = await build({
+    entryPoints: [file],
+    bundle: true,
+    packages: 'external',
+    platform: 'node',
+    format: 'esm',
+    target: 'node18',
+    write: false,
+    logLevel: 'silent'
+  });
+
+  // Written next to the source so bare imports resolve from the same node_modules
+  const compiled = path.join(
+    path.dirname(file),
+    `.${path.basename(file)}.${process.pid}.${Date.now()}.mjs`
+  );
+  fs.writeFileSync(compiled, output.outputFiles[0].text);
+
+  try {
+    return await importModule(compiled);
+  } finally {
+    fs.rmSync(compiled, { force: true });
+  }
+}
+
+/**
+ * Import a module by absolute path
+ */
+async function importModule(file: string): Promise<Record<string, unknown>> {
+  return import(pathToFileURL(file).href);
+}
@@ -0,0 +1,205 @@
+/**
+ * Rollback runner for down() migrations
+ *
+ * Meant for tests (e.g. under fake-indexeddb): IndexedDB versions can only go
+ * up, so each step copies the data out, deletes the database and recreates it
+ * at the previous migration's version.
+ */
+
+import Dexie from 'dexie';
+import type { DexieOptions, IndexableTypeArrayReadonly } from 'dexie';
+import type { Migration, MigrationRecord, StoresMap } from './types';
+import { RollbackError } from './errors';
+import { computeExpectedSchema } from './snapshot';
+import { MIGRATIONS_TABLE, MIGRATIONS_TABLE_SCHEMA, readInstalledState } from './runtime';
+
+/**
+ * Options for rolling back migrations
+ */
+export interface RollbackOptions {
+  /** ID of the migration to roll back to; 0 rolls back every migration */
+  to: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+  /** Options passed to the Dexie constructor (see MigrationOptions.dexieOptions) */
+  dexieOptions?: DexieOptions;
+}
+
+/**
+ * Result of rolling back migrations
+ */
+export interface RollbackResult {
+  /** IDs of migrations that were rolled back, newest first */
+  rolledBackMigrations: number[];
+  /** Database version after the rollback (0 if the database was deleted) */
+  finalVersion: number;
+}
+
+/**
+ * Rows of one table copied out of the database
+ */
+interface TableDump {
+  rows: unknown[];
+  /** Primary keys, only kept for tables with outbound keys */
+  keys?: IndexableTypeArrayReadonly;
+}
+
+/**
+ * Roll applied migrations back to `options.to`, newest first
+ *
+ * Each migration's down() runs against the schema of that migration. The
+ * schema before it is then restored from the cumulative `stores` and its
+ * `_dexie_migrations` record is removed. Tables the migration dropped come
+ * back empty, since down() cannot write to them.
+ */
+export async function rollbackMigrations(
+  dbName: string,
+  migrations: Migration[],
+  options: RollbackOptions
+): Promise<RollbackResult> {
+  const { to, verbose = false, dexieOptions } = options;
+  const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+
+  if (to !== 0 && !sortedMigrations.some(m => m.id === to)) {
+    throw new RollbackError(`Cannot roll back to migration ${to}: no migration has that ID`);
+  }
+
+  const installed = await readInstalledState(dbName, dexieOptions);
+  const toRollBack = sortedMigrations
+    .filter(m => m.id > to && installed.records.has(m.id))
+    .reverse();
+
+  // Fail before touching anything if a data migration can't be undone
+  for (const migration of toRollBack) {
+    if (!migration.down && (migration.up || migration.batch)) {
+      throw new RollbackError(
+        `Migration ${migration.id} (${migration.name}) changes data but has no down() function`,
+        migration
+      );
+    }
+  }
+
+  let finalVersion = installed.version;
+
+  for (const migration of toRollBack) {
+    const earlierMigrations = sortedMigrations.filter(m => m.id < migration.id);
+
+    if (verbose) {
+      console.log(`[dexie-migrate] Rolling back migration ${migration.id}: ${migration.name}`);
+    }
+
+    const dump = await runDown(dbName, migration, dexieOptions);
+    await new Dexie(dbName, dexieOptions).delete();
+
+    if (earlierMigrations.length === 0) {
+      finalVersion = 0;
+    } else {
+      finalVersion = earlierMigrations[earlierMigrations.length - 1].id;
+      await restore(
+        dbName,
+        finalVersion,
+        computeExpectedSchema(earlierMigrations),
+        dump,
+        migration.id,
+        dexieOptions
+      );
+    }
+
+    if (verbose) {
+      console.log(`[dexie-migrate] ✓ Rolled back migration ${migration.id}`);
+    }
+  }
+
+  return {
+    rolledBackMigrations: toRollBack.map(m => m.id),
+    finalVersion
+  };
+}
+
+/**
+ * Run a migration's down() and copy every table out of the database
+ */
+async function runDown(
+  dbName: string,
+  migration: Migration,
+  dexieOptions?: DexieOptions
+): Promise<Map<string, TableDump>> {
+  // Open with the schema on disk, whatever the migrations declare
+  const db = new Dexie(dbName, dexieOptions);
+
+  try {
+    await db.open();
+
+    if (migration.down) {
+      try {
+        await db.transaction('rw', db.tables, tx => migration.down!(tx));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new RollbackError(
+          `Migration ${migration.id} (${migration.name}) failed during down: ${reason}`,
+          migration,
+          error
+        );
+      }
+    }
+
+    const dump = new Map<string, TableDump>();
+    for (const table of db.tables) {
+      const rows = await table.toArray();
+      const outbound = !table.schema.primKey.keyPath;
+      dump.set(table.name, {
+        rows,
+        keys: outbound ? (await table.toCollection().primaryKeys()) as IndexableTypeArrayReadonly : undefined
+      });
+    }
+
+    return dump;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Recreate the database at `version` and copy the dumped rows back in
+ */
+async function restore(
+  dbName: string,
+  version: number,
+  stores: StoresMap,
+  dump: Map<string, TableDump>,
+  rolledBackId: number,
+  dexieOptions?: DexieOptions
+): Promise<void> {
+  const db = new Dexie(dbName, dexieOptions);
+  db.version(version).stores({
+    ...stores,
+    [MIGRATIONS_TABLE]: MIGRATIONS_TABLE_SCHEMA
+  });
+
+  try {
+    await db.open();
+
+    await db.transaction('rw', db.tables, async () => {
+      for (const table of db.tables) {
+        const tableDump = dump.get(table.name);
+        if (!tableDump) {
+          continue;
+        }
+
+        if (table.name === MIGRATIONS_TABLE) {
+          // Also drop the IDs a squashed migration recorded as replaced
+          const records = (tableDump.rows as MigrationRecord[]).filter(
+            r => r.id !== rolledBackId && r.replacedBy !== rolledBackId
+          );
+          await table.bulkAdd(records);
+        } else if (tableDump.keys) {
+          await table.bulkAdd(tableDump.rows, tableDump.keys);
+        } else {
+          await table.bulkAdd(tableDump.rows);
+        }
+      }
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -1,7 +1,25 @@
 import Dexie from 'dexie';
+import type { DexieOptions, Transaction } from 'dexie';
 import type { Migration, MigrationOptions, MigrationResult, MigrationRecord } from './types';
+import { computeMigrationChecksum } from './checksum';
+import type { ChecksumOptions } from './checksum';
+import {
+  ChecksumMismatchError,
+  DuplicateMigrationIdError,
+  InvalidMigrationDefinitionError,
+  MigrationUpError,
+  MigrationValidationError,
+  MigrationTimeoutError,
+  PartialSquashError,
+  UpgradeBlockedError,
+  VersionMismatchError
+} from './errors';
 
-const MIGRATIONS_TABLE = '_dexie_migrations';
+export const MIGRATIONS_TABLE = '_dexie_migrations';
+export const MIGRATIONS_TABLE_SCHEMA = 'id, name, appliedAt';
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_BACKGROUND_INTERVAL = 50;
+const DEFAULT_TIMEOUT = 30000;
 
 /**
  * Run migrations and return a ready-to-use Dexie database
@@ -10,29 +28,71 @@ export async function runMigrations(
   dbName: string,
   migrations: Migration[],
   options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  return migrate(dbName, migrations, options, true);
+}
+
+/**
+ * Open a database another tab has just migrated
+ *
+ * Like runMigrations, but checkpointed batch steps are left to the tab that
+ * started them instead of being resumed here.
+ */
+export async function openMigratedDatabase(
+  dbName: string,
+  migrations: Migration[],
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  return migrate(dbName, migrations, options, false);
+}
+
+async function migrate(
+  dbName: string,
+  migrations: Migration[],
+  options: MigrationOptions,
+  resumeBatches: boolean
 ): Promise<MigrationResult> {
   const { dryRun = false, verbose = false, onProgress, onError, onComplete } = options;
 
   // Validate migrations
   validateMigrations(migrations);
 
-  // Sort migrations by ID
-  const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+  // Check which migrations have been applied
+  const installed = await readInstalledState(dbName, options.dexieOptions);
+  const appliedRecords = installed.records;
+
+  // Sort migrations by ID, replaying squashed originals where a database needs them
+  const sortedMigrations = resolveSquashedMigrations(
+    dbName,
+    [...migrations].sort((a, b) => a.id - b.id),
+    appliedRecords,
+    options.replacedMigrations ?? []
+  );
+  const finalVersion = getVersionNumber(sortedMigrations[sortedMigrations.length - 1]);
 
   if (verbose) {
     console.log(`[dexie-migrate] Starting migrations for database: ${dbName}`);
     console.log(`[dexie-migrate] Total migrations: ${sortedMigrations.length}`);
   }
-
-  // Check which migrations have been applied
-  const appliedIds = await getAppliedMigrations(dbName);
   
   // Determine which migrations need to be applied
-  const pendingMigrations = sortedMigrations.filter(m => !appliedIds.has(m.id));
-  const skippedMigrations = sortedMigrations.filter(m => appliedIds.has(m.id));
+  const pendingMigrations = sortedMigrations.filter(m => !isMigrationApplied(m, appliedRecords));
+  const resumedMigrations = resumeBatches
+    ? sortedMigrations.filter(m => appliedRecords.get(m.id)?.status === 'in_progress')
+    : [];
+  const skippedMigrations = sortedMigrations.filter(
+    m => isMigrationApplied(m, appliedRecords) && !resumedMigrations.includes(m)
+  );
+
+  checkInstalledVersion(dbName, installed, pendingMigrations, finalVersion);
+  const checksumOptions: ChecksumOptions = { includeFunctions: options.checksumFunctions };
+  checkChecksums(sortedMigrations, appliedRecords, options.checksumValidation ?? 'warn', checksumOptions);
 
   if (verbose) {
-    console.log(`[dexie-migrate] Applied: ${appliedIds.size}, Pending: ${pendingMigrations.length}`);
+    console.log(`[dexie-migrate] Applied: ${appliedRecords.size}, Pending: ${pendingMigrations.length}`);
+    if (resumedMigrations.length > 0) {
+      console.log(`[dexie-migrate] Resuming batch migrations: ${resumedMigrations.map(m => m.id).join(', ')}`);
+    }
   }
 
   if (dryRun) {
@@ -40,25 +100,61 @@ export async function runMigrations(
     pendingMigrations.forEach(m => {
       console.log(`  Would apply: ${m.id}_${m.name}`);
     });
+    resumedMigrations.forEach(m => {
+      const record = appliedRecords.get(m.id);
+      console.log(`  Would resume: ${m.id}_${m.name} (${record?.processed ?? 0} rows done)`);
+    });
     
     // Return a mock result for dry run
     return {
       db: null,
       appliedMigrations: [],
       skippedMigrations: skippedMigrations.map(m => m.id),
-      finalVersion: sortedMigrations.length
+      finalVersion,
+      pendingBackgroundMigrations: [],
+      backgroundComplete: Promise.resolve(),
+      ranBy: 'this-tab'
     };
   }
 
   // Create the actual database with migrations
-  const db = new Dexie(dbName);
+  const db = new Dexie(dbName, options.dexieOptions);
   const newlyApplied: number[] = [];
 
+  const blocked = watchBlockedUpgrade(db, dbName, options);
+  handleVersionChange(db, options);
+
+  // Dexie resolves open() once the upgrade transaction commits, even if an
+  // upgrade function failed after losing the transaction, so failures are
+  // collected here and rethrown after open
+  const upgradeErrors: Error[] = [];
+
+  const applyInUpgrade = async (migration: Migration, tx: Transaction, progressIndex: number) => {
+    // The open was given up while blocked; don't let the upgrade run once unblocked
+    if (blocked.error) {
+      tx.abort();
+      return;
+    }
+
+    try {
+      onProgress?.(progressIndex, pendingMigrations.length);
+      await applyMigration(migration, tx, checksumOptions);
+
+      if (verbose) {
+        console.log(`[dexie-migrate] ✓ Migration ${migration.id} completed`);
+      }
+    } catch (error) {
+      console.error(`[dexie-migrate] ✗ Migration ${migration.id} failed:`, error);
+      onError?.(migration, error as Error);
+      upgradeErrors.push(error as Error);
+      throw error;
+    }
+  };
+
   // Build version chain
-  for (let i = 0; i < sortedMigrations.length; i++) {
-    const migration = sortedMigrations[i];
-    const versionNumber = i + 1;
-    const isNewMigration = !appliedIds.has(migration.id);
+  for (const migration of sortedMigrations) {
+    const versionNumber = getVersionNumber(migration);
+    const isNewMigration = !isMigrationApplied(migration, appliedRecords);
 
     if (verbose && isNewMigration) {
       console.log(`[dexie-migrate] Applying migration ${migration.id}: ${migration.name}`);
@@ -66,102 +162,624 @@ export async function runMigrations(
 
     // Define the version with schema changes
     const versionBuilder = db.version(versionNumber);
-    
-    // Combine migration stores with migrations table
-    const stores = migration.stores ? { ...migration.stores } : {};
-    stores[MIGRATIONS_TABLE] = 'id, name, appliedAt';
-    versionBuilder.stores(stores);
+    versionBuilder.stores(getVersionStores(migration));
 
     // Add upgrade function only for new migrations
     if (isNewMigration) {
       const migrationToApply = migration; // Capture in closure
       const progressIndex = newlyApplied.length + 1;
       
-      versionBuilder.upgrade(async (tx) => {
-        try {
-          onProgress?.(progressIndex, pendingMigrations.length);
-          
-          // Run the up migration
-          if (migrationToApply.up) {
-            await migrationToApply.up(tx);
-          }
-
-          // Run validation if defined
-          if (migrationToApply.validateAfter) {
-            const isValid = await migrationToApply.validateAfter(tx);
-            if (!isValid) {
-              throw new Error(`Migration ${migrationToApply.id} validation failed`);
-            }
-          }
-
-          // Record that this migration was applied
-          await tx.table(MIGRATIONS_TABLE).add({
-            id: migrationToApply.id,
-            name: migrationToApply.name,
-            appliedAt: Date.now()
-          });
-
-          if (verbose) {
-            console.log(`[dexie-migrate] ✓ Migration ${migrationToApply.id} completed`);
-          }
-        } catch (error) {
-          console.error(`[dexie-migrate] ✗ Migration ${migrationToApply.id} failed:`, error);
-          onError?.(migrationToApply, error as Error);
-          throw error;
-        }
-      });
+      versionBuilder.upgrade(tx => applyInUpgrade(migrationToApply, tx, progressIndex));
       
       newlyApplied.push(migration.id);
     }
   }
 
   try {
+    // Dexie creates a missing database straight at the final schema and skips
+    // upgrade functions, so up() could not read a table a later migration
+    // drops. A fresh install creates the database at the first migration, and
+    // the open below upgrades it from there like any installed database.
+    if (installed.version === 0) {
+      await createDatabase(dbName, sortedMigrations[0], options.dexieOptions, tx =>
+        applyInUpgrade(sortedMigrations[0], tx, 1)
+      );
+      if (upgradeErrors.length > 0) {
+        throw upgradeErrors[0];
+      }
+    }
+
     // Open the database (this will run pending migrations)
-    await db.open();
+    const opening = db.open();
+    try {
+      await Promise.race([opening, blocked.expired]);
+    } catch (error) {
+      if (blocked.error) {
+        // Closing while the open is still pending makes Dexie reopen the database,
+        // so wait for the (self-aborting) upgrade to settle before closing
+        opening.then(() => db.close(), () => db.close());
+        throw blocked.error;
+      }
+      if ((error as Error).name === Dexie.errnames.Version) {
+        throw new VersionMismatchError(dbName, installed.version, finalVersion, error);
+      }
+      // An aborted upgrade surfaces as a generic AbortError; prefer the cause
+      if (upgradeErrors.length === 0) {
+        throw error;
+      }
+    } finally {
+      blocked.dispose();
+    }
+
+    if (upgradeErrors.length > 0) {
+      throw upgradeErrors[0];
+    }
+
+    // Run or resume checkpointed batch steps outside the upgrade transaction
+    const batchMigrations = sortedMigrations.filter(
+      m => m.batch && (resumedMigrations.includes(m) || newlyApplied.includes(m.id))
+    );
+    const foregroundMigrations = batchMigrations.filter(m => !m.background);
+    const backgroundMigrations = batchMigrations.filter(m => m.background);
+
+    for (const migration of foregroundMigrations) {
+      try {
+        await runBatchStep(db, migration, options);
+      } catch (error) {
+        console.error(`[dexie-migrate] ✗ Batch step of migration ${migration.id} failed:`, error);
+        onError?.(migration, error as Error);
+        throw error;
+      }
+    }
+
+    const pendingBackgroundMigrations = backgroundMigrations.map(m => m.id);
+    const backgroundComplete = runBackgroundMigrations(
+      db,
+      backgroundMigrations,
+      pendingBackgroundMigrations,
+      options
+    );
+    // Failures are reported through onError; only callers awaiting the promise see the rejection
+    backgroundComplete.catch(() => {});
 
     onComplete?.();
 
     if (verbose) {
-      console.log(`[dexie-migrate] ✓ All migrations completed. Database at version ${sortedMigrations.length}`);
+      console.log(`[dexie-migrate] ✓ All migrations completed. Database at version ${finalVersion}`);
+      if (pendingBackgroundMigrations.length > 0) {
+        console.log(`[dexie-migrate] Background migrations pending: ${pendingBackgroundMigrations.join(', ')}`);
+      }
     }
 
     return {
       db,
-      appliedMigrations: newlyApplied,
+      appliedMigrations: [...newlyApplied, ...resumedMigrations.map(m => m.id)],
       skippedMigrations: skippedMigrations.map(m => m.id),
-      finalVersion: sortedMigrations.length
+      finalVersion,
+      pendingBackgroundMigrations,
+      backgroundComplete,
+      ranBy: 'this-tab'
     };
   } catch (error) {
     console.error('[dexie-migrate] Migration failed:', error);
+    if (!blocked.error) {
+      db.close();
+    }
     throw error;
   }
 }
 
 /**
- * Get IDs of applied migrations from the database
+ * Create a database at the version of its first migration
+ *
+ * Dexie runs only the populate hook for a new database, so `populate` applies
+ * the migration there. Failures abort the creation and are left to the caller
+ * to report.
+ */
+async function createDatabase(
+  dbName: string,
+  migration: Migration,
+  dexieOptions: DexieOptions | undefined,
+  populate: (tx: Transaction) => Promise<void>
+): Promise<void> {
+  const db = new Dexie(dbName, dexieOptions);
+  db.version(getVersionNumber(migration)).stores(getVersionStores(migration));
+  let populateFailed = false;
+
+  db.on('populate', async (tx) => {
+    try {
+      await populate(tx);
+    } catch {
+      populateFailed = true;
+      // Dexie ignores the promise returned from populate, so abort here instead
+      // of rethrowing
+      try {
+        tx.abort();
+      } catch {
+        // Already finished
+      }
+    }
+  });
+
+  try {
+    await db.open();
+  } catch (error) {
+    // An aborted populate surfaces as a generic AbortError
+    if (!populateFailed) {
+      throw error;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Report an upgrade blocked by connections in other tabs, and give up after
+ * `blockedTimeout` if one is configured
+ *
+ * `expired` rejects with UpgradeBlockedError once the timeout passes. The IDB
+ * open request cannot be cancelled, so the caller lets it finish in the
+ * background; the upgrade aborts itself when it sees `error` set.
+ */
+function watchBlockedUpgrade(
+  db: Dexie,
+  dbName: string,
+  options: MigrationOptions
+): { expired: Promise<never>; error?: UpgradeBlockedError; dispose: () => void } {
+  const { onBlocked, blockedTimeout, verbose } = options;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let expire: (error: UpgradeBlockedError) => void = () => {};
+
+  const state: { expired: Promise<never>; error?: UpgradeBlockedError; dispose: () => void } = {
+    expired: new Promise<never>((_, reject) => {
+      expire = reject;
+    }),
+    dispose: () => clearTimeout(timer)
+  };
+
+  db.on('blocked', (event) => {
+    if (verbose) {
+      console.log('[dexie-migrate] Upgrade blocked by another open connection, waiting...');
+    }
+    onBlocked?.(event);
+
+    if (blockedTimeout !== undefined && timer === undefined) {
+      timer = setTimeout(() => {
+        state.error = new UpgradeBlockedError(dbName, blockedTimeout);
+        expire(state.error);
+      }, blockedTimeout);
+    }
+  });
+
+  return state;
+}
+
+/**
+ * Close the database when another tab upgrades it, then notify the app
+ *
+ * Keeping the connection open would block the other tab's upgrade. With
+ * `closeOnVersionChange: false` the connection stays open and the app is
+ * responsible for closing it from `onVersionChange`.
+ */
+function handleVersionChange(db: Dexie, options: MigrationOptions): void {
+  const { onVersionChange, closeOnVersionChange = true, verbose } = options;
+
+  db.on('versionchange', (event) => {
+    if (verbose) {
+      console.log(`[dexie-migrate] Database upgraded to version ${event.newVersion} elsewhere`);
+    }
+
+    if (closeOnVersionChange) {
+      db.close();
+    }
+    onVersionChange?.(event);
+
+    // Returning false stops Dexie from closing the connection itself
+    return closeOnVersionChange ? undefined : false;
+  });
+}
+
+/**
+ * Dexie version number for a migration
+ *
+ * Versions come from the migration ID rather than its position in the list, so
+ * deleting or squashing earlier migrations never lowers the version of later ones.
+ */
+function getVersionNumber(migration: Migration): number {
+  return migration.id;
+}
+
+/**
+ * Tables to declare for a migration's version, including the migrations table
+ */
+function getVersionStores(migration: Migration): Record<string, string | null> {
+  const stores = migration.stores ? { ...migration.stores } : {};
+  stores[MIGRATIONS_TABLE] = MIGRATIONS_TABLE_SCHEMA;
+  return stores;
+}
+
+/**
+ * Make sure the installed database can be upgraded with the supplied migrations
+ *
+ * Dexie would either fail with a raw VersionError or silently skip upgrades
+ * whose version is not above the installed one, so both cases are caught here.
+ */
+function checkInstalledVersion(
+  dbName: string,
+  installed: InstalledState,
+  pendingMigrations: Migration[],
+  finalVersion: number
+): void {
+  if (installed.version > finalVersion) {
+    throw new VersionMismatchError(dbName, installed.version, finalVersion);
+  }
+
+  // Only databases managed by dexie-migrate have versions derived from IDs
+  if (installed.records.size === 0) {
+    return;
+  }
+
+  const outOfOrder = pendingMigrations.find(m => getVersionNumber(m) <= installed.version);
+  if (outOfOrder) {
+    throw new InvalidMigrationDefinitionError(
+      `Migration ${outOfOrder.id} (${outOfOrder.name}) has not been applied, ` +
+      `but database ${dbName} is already at version ${installed.version}`,
+      outOfOrder,
+      undefined,
+      [
+        `Renumber the migration with an ID above ${installed.version}`,
+        'New migrations must always have a higher ID than every migration already shipped'
+      ]
+    );
+  }
+}
+
+/**
+ * Compare applied migrations against the checksum recorded when they were applied
+ *
+ * Records written before checksums were introduced have none and are skipped.
  */
-async function getAppliedMigrations(dbName: string): Promise<Set<number>> {
-  const tempDb = new Dexie(dbName);
+function checkChecksums(
+  migrations: Migration[],
+  appliedRecords: Map<number, MigrationRecord>,
+  mode: 'error' | 'warn' | 'off',
+  checksumOptions: ChecksumOptions
+): void {
+  if (mode === 'off') {
+    return;
+  }
+
+  for (const migration of migrations) {
+    const record = appliedRecords.get(migration.id);
+    if (!record?.checksum) continue;
+    // Recorded by the original migration a squashed one replaces
+    if (migration.replaces && record.name !== migration.name) continue;
+
+    const checksum = computeMigrationChecksum(migration, checksumOptions);
+    if (checksum === record.checksum) continue;
+
+    const error = new ChecksumMismatchError(migration, record.checksum, checksum);
+    if (mode === 'error') {
+      throw error;
+    }
+    console.warn(`[dexie-migrate] ⚠ ${error.message}`);
+  }
+}
+
+/**
+ * Apply a single migration inside the upgrade transaction and record it
+ */
+async function applyMigration(
+  migration: Migration,
+  tx: Transaction,
+  checksumOptions: ChecksumOptions
+): Promise<void> {
+  await withTimeout(migration, tx, async () => {
+    // Run the up migration
+    if (migration.up) {
+      try {
+        await migration.up(tx);
+      } catch (error) {
+        throw new MigrationUpError(migration, 'up', error);
+      }
+    }
+
+    // Batch migrations are validated once their last batch has been processed
+    if (migration.validateAfter && !migration.batch) {
+      const isValid = await migration.validateAfter(tx);
+      if (!isValid) {
+        throw new MigrationValidationError(migration);
+      }
+    }
+  });
+
+  // Record that this migration was applied
+  const record: MigrationRecord = {
+    id: migration.id,
+    name: migration.name,
+    appliedAt: Date.now(),
+    status: migration.batch ? 'in_progress' : 'completed',
+    checksum: computeMigrationChecksum(migration, checksumOptions)
+  };
+  await tx.table(MIGRATIONS_TABLE).add(record);
+
+  // Record the replaced IDs too, so later squashes over a wider range still
+  // see them as applied
+  const replaced = (migration.replaces ?? []).filter(id => id !== migration.id);
+  if (replaced.length > 0) {
+    await tx.table(MIGRATIONS_TABLE).bulkAdd(replaced.map((id): MigrationRecord => ({
+      id,
+      name: migration.name,
+      appliedAt: record.appliedAt,
+      status: 'completed',
+      replacedBy: migration.id
+    })));
+  }
+}
+
+/**
+ * Run part of a migration under its timeout, aborting the transaction when it expires
+ *
+ * IndexedDB commits a transaction as soon as it has no pending requests, so an
+ * up() awaiting something other than the database would let the upgrade commit
+ * half-applied. The transaction is kept alive with cheap reads while `fn` runs,
+ * which keeps abort() possible and rolls back everything on timeout.
+ */
+async function withTimeout<T>(
+  migration: Migration,
+  tx: Transaction,
+  fn: () => Promise<T>
+): Promise<T> {
+  const timeout = migration.timeout ?? DEFAULT_TIMEOUT;
+  if (timeout <= 0) {
+    return fn();
+  }
+
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = true;
+
+  const keepAlive = () => {
+    if (running) {
+      tx.table(MIGRATIONS_TABLE).get(-1).then(keepAlive, () => {});
+    }
+  };
+  keepAlive();
+
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      running = false;
+      try {
+        tx.abort();
+      } catch {
+        // Transaction already finished
+      }
+      reject(new MigrationTimeoutError(migration, Date.now() - startedAt, timeout));
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([fn(), expired]);
+  } finally {
+    running = false;
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the batch step of a migration, resuming from its stored checkpoint
+ *
+ * Each batch is processed in its own transaction together with the checkpoint
+ * update, so a crash loses at most the batch that was in flight.
+ */
+async function runBatchStep(
+  db: Dexie,
+  migration: Migration,
+  options: MigrationOptions,
+  beforeBatch?: () => Promise<void>
+): Promise<void> {
+  const step = migration.batch!;
+  const size = step.size ?? DEFAULT_BATCH_SIZE;
+  const record = await db.table<MigrationRecord>(MIGRATIONS_TABLE).get(migration.id);
+
+  let checkpoint = record?.checkpoint;
+  let processed = record?.processed ?? 0;
+  let done = false;
+
+  while (!done) {
+    await beforeBatch?.();
+
+    done = await db.transaction('rw', db.tables, async (tx) => {
+      const table = tx.table(step.table);
+      const collection = checkpoint === undefined
+        ? table.orderBy(':id')
+        : table.where(':id').above(checkpoint);
+
+      const keys = await collection.limit(size).primaryKeys();
+      if (keys.length === 0) {
+        return true;
+      }
+
+      const rows = await table.bulkGet(keys);
+      try {
+        await step.process(rows, tx, keys);
+      } catch (error) {
+        throw new MigrationUpError(migration, 'batch', error);
+      }
+
+      await tx.table(MIGRATIONS_TABLE).update(migration.id, {
+        checkpoint: keys[keys.length - 1],
+        processed: processed + keys.length
+      });
+
+      checkpoint = keys[keys.length - 1];
+      processed += keys.length;
+      return keys.length < size;
+    });
+
+    options.onBatchProgress?.(migration, processed);
+  }
+
+  await db.transaction('rw', db.tables, async (tx) => {
+    if (migration.validateAfter) {
+      const isValid = await withTimeout(migration, tx, () => migration.validateAfter!(tx));
+      if (!isValid) {
+        throw new MigrationValidationError(migration);
+      }
+    }
+
+    await tx.table(MIGRATIONS_TABLE).update(migration.id, { status: 'completed' });
+  });
+
+  if (options.verbose) {
+    console.log(`[dexie-migrate] ✓ Batch step of migration ${migration.id} completed (${processed} rows)`);
+  }
+}
+
+/**
+ * Run background batch steps one after another on an idle/interval scheduler
+ *
+ * `pending` is shared with the caller's MigrationResult and shrinks as jobs
+ * finish. Closing the database pauses the remaining jobs; they resume from
+ * their checkpoint on the next runMigrations call.
+ */
+async function runBackgroundMigrations(
+  db: Dexie,
+  migrations: Migration[],
+  pending: number[],
+  options: MigrationOptions
+): Promise<void> {
+  const { backgroundScheduler = 'idle', backgroundInterval = DEFAULT_BACKGROUND_INTERVAL } = options;
+  const nextSlot = () => waitForSlot(backgroundScheduler, backgroundInterval);
+
+  for (const migration of migrations) {
+    try {
+      await runBatchStep(db, migration, options, nextSlot);
+    } catch (error) {
+      if (!db.isOpen()) {
+        if (options.verbose) {
+          console.log(`[dexie-migrate] Database closed, pausing background migration ${migration.id}`);
+        }
+        return;
+      }
+
+      console.error(`[dexie-migrate] ✗ Background migration ${migration.id} failed:`, error);
+      options.onError?.(migration, error as Error);
+      throw error;
+    }
+
+    pending.splice(pending.indexOf(migration.id), 1);
+    options.onBackgroundComplete?.(migration);
+  }
+}
+
+/**
+ * Wait for the next idle period, or for the interval where idle callbacks are unavailable
+ */
+function waitForSlot(scheduler: 'idle' | 'interval', interval: number): Promise<void> {
+  if (scheduler === 'idle' && typeof requestIdleCallback === 'function') {
+    return new Promise(resolve => requestIdleCallback(() => resolve(), { timeout: interval * 20 }));
+  }
+
+  return new Promise(resolve => setTimeout(resolve, interval));
+}
+
+/**
+ * State of the database on disk before migrating
+ */
+export interface InstalledState {
+  /** Dexie version of the existing database (0 if it does not exist) */
+  version: number;
+  /** Records of applied migrations, keyed by ID */
+  records: Map<number, MigrationRecord>;
+}
+
+/**
+ * Check whether any of the migrations has not been applied to the database yet
+ */
+export async function hasPendingMigrations(
+  dbName: string,
+  migrations: Migration[],
+  dexieOptions?: DexieOptions
+): Promise<boolean> {
+  const installed = await readInstalledState(dbName, dexieOptions);
+  return migrations.some(m => !isMigrationApplied(m, installed.records));
+}
+
+/**
+ * Whether a migration has been applied, counting a squashed migration as
+ * applied once every migration it replaces has been
+ */
+export function isMigrationApplied(
+  migration: Migration,
+  records: Map<number, MigrationRecord>
+): boolean {
+  if (records.has(migration.id)) {
+    return true;
+  }
+  return !!migration.replaces?.length && migration.replaces.every(id => records.has(id));
+}
+
+/**
+ * Swap squashed migrations for their originals where a database applied only
+ * part of the replaced range
+ *
+ * A fresh database applies the squashed migration itself. One that is partway
+ * through the range replays the archived originals, which must all be supplied
+ * since Dexie drops tables that no declared version mentions.
+ */
+function resolveSquashedMigrations(
+  dbName: string,
+  migrations: Migration[],
+  records: Map<number, MigrationRecord>,
+  replacedMigrations: Migration[]
+): Migration[] {
+  return migrations.flatMap(migration => {
+    if (!migration.replaces || isMigrationApplied(migration, records)) {
+      return [migration];
+    }
+
+    const missingIds = migration.replaces.filter(id => !records.has(id));
+    if (missingIds.length === migration.replaces.length) {
+      return [migration];
+    }
+
+    const originals = migration.replaces.map(id => replacedMigrations.find(m => m.id === id));
+    if (originals.some(m => !m)) {
+      throw new PartialSquashError(dbName, migration, missingIds);
+    }
+    return originals as Migration[];
+  });
+}
+
+/**
+ * Read the installed version and applied migration records from the database
+ */
+export async function readInstalledState(
+  dbName: string,
+  dexieOptions?: DexieOptions
+): Promise<InstalledState> {
+  const tempDb = new Dexie(dbName, dexieOptions);
   
   try {
     // Open without specifying version - Dexie will use existing version
     await tempDb.open();
+    const version = tempDb.verno;
     
     // Check if migrations table exists
     const hasMigrationsTable = tempDb.tables.some(t => t.name === MIGRATIONS_TABLE);
     
     if (!hasMigrationsTable) {
       await tempDb.close();
-      return new Set();
+      return { version, records: new Map() };
     }
     
     // Get applied migrations
     const appliedRecords = await tempDb.table<MigrationRecord>(MIGRATIONS_TABLE).toArray();
-    const appliedIds = new Set(appliedRecords.map(r => r.id));
     
     await tempDb.close();
     
-    return appliedIds;
+    return { version, records: new Map(appliedRecords.map(r => [r.id, r])) };
   } catch (error) {
     // Database doesn't exist or can't be opened
     try {
@@ -169,36 +787,79 @@ async function getAppliedMigrations(dbName: string): Promise<Set<number>> {
     } catch {
       // Ignore
     }
-    return new Set();
+    return { version: 0, records: new Map() };
   }
 }
 
 /**
  * Validate migrations array
  */
-function validateMigrations(migrations: Migration[]): void {
+export function validateMigrations(migrations: Migration[]): void {
   if (!Array.isArray(migrations)) {
-    throw new Error('Migrations must be an array');
+    throw new InvalidMigrationDefinitionError('Migrations must be an array');
   }
 
   if (migrations.length === 0) {
-    throw new Error('At least one migration is required');
+    throw new InvalidMigrationDefinitionError('At least one migration is required');
   }
 
   // Check for duplicate IDs
   const ids = migrations.map(m => m.id);
   const uniqueIds = new Set(ids);
   if (ids.length !== uniqueIds.size) {
-    throw new Error('Duplicate migration IDs detected');
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    throw new DuplicateMigrationIdError([...new Set(duplicates)]);
   }
 
   // Validate each migration
   migrations.forEach((migration, index) => {
-    if (!migration.id || typeof migration.id !== 'number') {
-      throw new Error(`Migration at index ${index} has invalid ID`);
+    if (!migration.id || typeof migration.id !== 'number' || !Number.isInteger(migration.id) || migration.id < 1) {
+      throw new InvalidMigrationDefinitionError(`Migration at index ${index} has invalid ID`, undefined, index);
     }
     if (!migration.name || typeof migration.name !== 'string') {
-      throw new Error(`Migration ${migration.id} has invalid name`);
+      throw new InvalidMigrationDefinitionError(`Migration ${migration.id} has invalid name`, migration, index);
+    }
+    if (migration.batch && (!migration.batch.table || typeof migration.batch.process !== 'function')) {
+      throw new InvalidMigrationDefinitionError(`Migration ${migration.id} has invalid batch step`, migration, index);
+    }
+    if (migration.background && !migration.batch) {
+      throw new InvalidMigrationDefinitionError(
+        `Migration ${migration.id} is marked as background but has no batch step`,
+        migration,
+        index
+      );
+    }
+    if (migration.replaces) {
+      validateReplaces(migration, index, uniqueIds);
     }
   });
 }
+
+/**
+ * Validate the replaced IDs of a squashed migration
+ */
+function validateReplaces(migration: Migration, index: number, ids: Set<number>): void {
+  const replaces = migration.replaces!;
+
+  if (!Array.isArray(replaces) || replaces.some(id => !Number.isInteger(id) || id < 1)) {
+    throw new InvalidMigrationDefinitionError(`Migration ${migration.id} has invalid replaces`, migration, index);
+  }
+  // Its version must not be below that of databases that applied the originals
+  if (replaces.some(id => id > migration.id)) {
+    throw new InvalidMigrationDefinitionError(
+      `Migration ${migration.id} replaces migrations with a higher ID`,
+      migration,
+      index,
+      ['Give a squashed migration the ID of the last migration it replaces']
+    );
+  }
+  const stillListed = replaces.find(id => id !== migration.id && ids.has(id));
+  if (stillListed !== undefined) {
+    throw new InvalidMigrationDefinitionError(
+      `Migration ${migration.id} replaces migration ${stillListed}, which is still in the migrations list`,
+      migration,
+      index,
+      ['Archive the replaced migrations and pass them as the replacedMigrations option instead']
+    );
+  }
+}
@@ -1,16 +1,48 @@
 import Dexie from 'dexie';
+import type { IndexSpec as DexieIndexSpec } from 'dexie';
 import type { Migration, StoresMap } from './types';
+import { MIGRATIONS_TABLE, MIGRATIONS_TABLE_SCHEMA, validateMigrations } from './runtime';
+import { computeMigrationChecksum } from './checksum';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Snapshot file format written by saveSnapshotToFile
+ *
+ * Format 1 stored index names only. The first CLI releases wrote files without
+ * any tables; loadSnapshotFromFile upgrades both.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 2;
+
+/**
+ * Snapshots are written and checked by the CLI from migration source, where
+ * function source is stable, so edits to up() count as changes there
+ */
+const SNAPSHOT_CHECKSUM_OPTIONS = { includeFunctions: true };
+
 /**
  * Schema snapshot representing the state of the database at a point in time
  */
 export interface SchemaSnapshot {
+  /** Snapshot file format (SNAPSHOT_FORMAT_VERSION) */
+  formatVersion: number;
+  /** Database version */
   version: number;
   timestamp: number;
   tables: Record<string, TableSchema>;
   lastMigrationId: number;
+  /** Migrations the snapshot covers, oldest first */
+  migrations: SnapshotMigration[];
+}
+
+/**
+ * A migration recorded in a snapshot
+ */
+export interface SnapshotMigration {
+  id: number;
+  name: string;
+  /** computeMigrationChecksum with `includeFunctions` */
+  checksum: string;
 }
 
 /**
@@ -18,9 +50,45 @@ export interface SchemaSnapshot {
  */
 export interface TableSchema {
   name: string;
-  primaryKey: string;
-  indexes: string[];
+  primaryKey: IndexSpec;
+  indexes: IndexSpec[];
+}
+
+/**
+ * An index or primary key, as declared in a Dexie schema string
+ */
+export interface IndexSpec {
+  /** Name as Dexie reports it: `email`, `[firstName+lastName]`, or '' for an outbound primary key */
+  name: string;
+  /** Key path, the member key paths of a compound index, or null for an outbound primary key */
+  keyPath: string | string[] | null;
+  /** Compound index (`[a+b]`) */
+  compound: boolean;
+  /** Unique index (`&`); always true for the primary key */
+  unique: boolean;
+  /** Multi-entry index (`*`) */
+  multiEntry: boolean;
+  /** Auto-incremented primary key (`++`) */
   autoIncrement: boolean;
+  /** Primary key stored outside the objects (no key path) */
+  outbound: boolean;
+}
+
+/**
+ * Differences between a saved snapshot and the schema the migrations produce
+ */
+export interface SchemaDrift {
+  drifted: boolean;
+  /** Last migration ID recorded in the snapshot */
+  snapshotMigrationId: number;
+  /** Last migration ID in the migrations */
+  currentMigrationId: number;
+  /** Tables the migrations create that the snapshot doesn't have */
+  missingTables: string[];
+  /** Tables in the snapshot that the migrations no longer create */
+  unexpectedTables: string[];
+  /** Index-level differences per table, e.g. "missing index 'updatedAt'" */
+  tableChanges: Record<string, string[]>;
 }
 
 /**
@@ -39,6 +107,13 @@ export async function createSnapshot(
   db: Dexie,
   migrations: Migration[]
 ): Promise<SchemaSnapshot> {
+  return buildSnapshot(db, migrations);
+}
+
+/**
+ * Snapshot the schema Dexie reports (declared or read from the database)
+ */
+function buildSnapshot(db: Dexie, migrations: Migration[]): SchemaSnapshot {
   const tables: Record<string, TableSchema> = {};
   
   for (const table of db.tables) {
@@ -46,9 +121,8 @@ export async function createSnapshot(
     
     tables[table.name] = {
       name: table.name,
-      primaryKey: schema.primKey.name || schema.primKey.keyPath as string || 'id',
-      indexes: schema.indexes.map(idx => idx.name),
-      autoIncrement: schema.primKey.auto || false
+      primaryKey: fromDexieIndex(schema.primKey, true),
+      indexes: schema.indexes.map(idx => fromDexieIndex(idx, false))
     };
   }
   
@@ -57,13 +131,45 @@ export async function createSnapshot(
     : 0;
   
   return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
     version: db.verno,
     timestamp: Date.now(),
     tables,
-    lastMigrationId: lastMigration
+    lastMigrationId: lastMigration,
+    migrations: [...migrations]
+      .sort((a, b) => a.id - b.id)
+      .map(m => ({ id: m.id, name: m.name, checksum: computeMigrationChecksum(m, SNAPSHOT_CHECKSUM_OPTIONS) }))
   };
 }
 
+/**
+ * Create the snapshot the migrations would produce, without a database
+ *
+ * The schema is declared on a Dexie instance that is never opened, so this
+ * works in Node (for example in the CLI) where there is no IndexedDB.
+ */
+export async function createSnapshotFromMigrations(
+  migrations: Migration[]
+): Promise<SchemaSnapshot> {
+  return snapshotFromMigrations(migrations);
+}
+
+function snapshotFromMigrations(migrations: Migration[]): SchemaSnapshot {
+  const db = new Dexie('dexie-migrate-snapshot');
+  const lastMigrationId = migrations.length > 0
+    ? Math.max(...migrations.map(m => m.id))
+    : 0;
+
+  if (lastMigrationId > 0) {
+    db.version(lastMigrationId).stores({
+      ...computeExpectedSchema(migrations),
+      [MIGRATIONS_TABLE]: MIGRATIONS_TABLE_SCHEMA
+    });
+  }
+
+  return buildSnapshot(db, migrations);
+}
+
 /**
  * Save snapshot to a JSON file
  */
@@ -85,14 +191,125 @@ export function saveSnapshotToFile(
 
 /**
  * Load snapshot from a JSON file
+ *
+ * Older formats are upgraded with migrateSnapshot; pass the migrations so it
+ * can fill in what those files didn't record.
  */
-export function loadSnapshotFromFile(filepath: string): SchemaSnapshot {
+export function loadSnapshotFromFile(filepath: string, migrations?: Migration[]): SchemaSnapshot {
   if (!fs.existsSync(filepath)) {
     throw new Error(`Snapshot file not found: ${filepath}`);
   }
   
   const content = fs.readFileSync(filepath, 'utf-8');
-  return JSON.parse(content) as SchemaSnapshot;
+  return migrateSnapshot(JSON.parse(content), migrations);
+}
+
+/**
+ * Table as stored by format 1 snapshots (or format 2, unchanged)
+ */
+interface StoredTableSchema {
+  name: string;
+  primaryKey: string | IndexSpec;
+  indexes: Array<string | IndexSpec>;
+  autoIncrement?: boolean;
+}
+
+/**
+ * Upgrade a parsed snapshot file to the current format
+ *
+ * - Format 1 tables list index names only. They are parsed into IndexSpecs,
+ *   taking the unique and multi-entry flags from the migrations when given.
+ * - Files from the first CLI releases only list migration file names, so their
+ *   schema is rebuilt from those migrations. Without them, the snapshot has no
+ *   tables and its migration list comes from the file names.
+ *
+ * The migration list of an upgraded format 1 snapshot comes from `migrations`
+ * (those it covers), and is empty without them.
+ */
+export function migrateSnapshot(data: unknown, migrations?: Migration[]): SchemaSnapshot {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Snapshot is not a JSON object');
+  }
+
+  const stored = data as Partial<Omit<SchemaSnapshot, 'tables' | 'migrations'>> & {
+    tables?: Record<string, StoredTableSchema>;
+    migrations?: unknown[];
+  };
+  const formatVersion = stored.formatVersion ?? 1;
+
+  if (formatVersion > SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Snapshot format ${formatVersion} is newer than this version of dexie-migrate supports ` +
+      `(${SNAPSHOT_FORMAT_VERSION})`
+    );
+  }
+  if (formatVersion === SNAPSHOT_FORMAT_VERSION) {
+    return data as SchemaSnapshot;
+  }
+
+  if (!stored.tables) {
+    // lastMigrationId was the file count back then, so go by the file names
+    const files = (stored.migrations ?? []).map(String);
+    if (!migrations) {
+      const covered = files.map(file => ({
+        id: parseInt(file, 10),
+        name: path.basename(file, path.extname(file)).replace(/^\d+_/, ''),
+        checksum: ''
+      }));
+      const lastMigrationId = Math.max(0, ...covered.map(m => m.id));
+      return {
+        formatVersion: SNAPSHOT_FORMAT_VERSION,
+        version: lastMigrationId,
+        timestamp: stored.timestamp ?? Date.now(),
+        tables: {},
+        lastMigrationId,
+        migrations: covered
+      };
+    }
+    const ids = new Set(files.map(file => parseInt(file, 10)));
+    return snapshotFromMigrations(migrations.filter(m => ids.has(m.id)));
+  }
+
+  const lastMigrationId = stored.lastMigrationId ?? 0;
+  const covered = (migrations ?? []).filter(m => m.id <= lastMigrationId);
+  const declared = migrations ? snapshotFromMigrations(covered).tables : {};
+  const tables: Record<string, TableSchema> = {};
+  for (const [name, table] of Object.entries(stored.tables)) {
+    tables[name] = upgradeTableSchema(table, declared[name]);
+  }
+
+  return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    version: stored.version ?? lastMigrationId,
+    timestamp: stored.timestamp ?? Date.now(),
+    tables,
+    lastMigrationId,
+    migrations: migrations ? snapshotFromMigrations(covered).migrations : []
+  };
+}
+
+/**
+ * Convert a format 1 table, copying modifiers from the declared table
+ */
+function upgradeTableSchema(table: StoredTableSchema, declared: TableSchema | undefined): TableSchema {
+  if (typeof table.primaryKey === 'object') {
+    return table as TableSchema;
+  }
+
+  const primaryKey = `${table.autoIncrement ? '++' : ''}${table.primaryKey}`;
+  const parsed = parseSchemaString([primaryKey, ...table.indexes].join(', '));
+  const declaredIndexes = new Map((declared?.indexes ?? []).map(index => [index.name, index]));
+
+  return {
+    name: table.name,
+    primaryKey: parsed.primaryKey,
+    indexes: parsed.indexes.map(index => {
+      const declaredIndex = declaredIndexes.get(index.name);
+      return declaredIndex
+        ? { ...index, unique: declaredIndex.unique, multiEntry: declaredIndex.multiEntry }
+        : index;
+    })
+  };
 }
 
 /**
@@ -158,24 +375,37 @@ export function validateSchema(
     
     if (!expectedSchema) continue;
     
-    // Parse expected schema to get indexes
-    const expectedIndexes = parseSchemaString(expectedSchema);
-    const currentIndexes = [currentTable.primaryKey, ...currentTable.indexes];
+    const expectedTable = parseSchemaString(expectedSchema);
     
-    // Check for missing indexes
-    for (const expectedIndex of expectedIndexes) {
-      if (!currentIndexes.includes(expectedIndex)) {
+    if (!indexSpecsEqual(expectedTable.primaryKey, currentTable.primaryKey)) {
+      errors.push(
+        `Table ${tableName}: primary key should be '${formatIndexSpec(expectedTable.primaryKey, true)}', ` +
+        `found '${formatIndexSpec(currentTable.primaryKey, true)}'`
+      );
+    }
+    
+    // Check for missing or changed indexes
+    const currentIndexes = new Map(currentTable.indexes.map(index => [index.name, index]));
+    for (const expectedIndex of expectedTable.indexes) {
+      const currentIndex = currentIndexes.get(expectedIndex.name);
+      if (!currentIndex) {
+        errors.push(
+          `Table ${tableName}: missing index '${expectedIndex.name}'`
+        );
+      } else if (!indexSpecsEqual(expectedIndex, currentIndex)) {
         errors.push(
-          `Table ${tableName}: missing index '${expectedIndex}'`
+          `Table ${tableName}: index should be '${formatIndexSpec(expectedIndex)}', ` +
+          `found '${formatIndexSpec(currentIndex)}'`
         );
       }
     }
     
     // Check for extra indexes (warning only)
-    for (const currentIndex of currentIndexes) {
-      if (!expectedIndexes.includes(currentIndex)) {
+    const expectedNames = new Set(expectedTable.indexes.map(index => index.name));
+    for (const currentIndex of currentTable.indexes) {
+      if (!expectedNames.has(currentIndex.name)) {
         warnings.push(
-          `Table ${tableName}: unexpected index '${currentIndex}'`
+          `Table ${tableName}: unexpected index '${currentIndex.name}'`
         );
       }
     }
@@ -189,41 +419,176 @@ export function validateSchema(
 }
 
 /**
- * Parse Dexie schema string to extract field names
+ * Parse a Dexie schema string such as `++id, &email, *tags, [first+last]`
+ *
+ * The first entry is the primary key (empty for an outbound key). Throws on
+ * a malformed compound index, which Dexie itself would choke on.
  */
-function parseSchemaString(schema: string): string[] {
-  // Dexie schema format: "primaryKey, index1, index2, [compound+index]"
-  return schema
-    .split(',')
-    .map(s => s.trim())
-    .filter(s => s.length > 0)
-    .map(s => {
-      // Remove compound index markers like [a+b]
-      if (s.startsWith('[') && s.endsWith(']')) {
-        return s.slice(1, -1);
-      }
-      // Remove prefix markers like ++id, &email, *tags
-      return s.replace(/^[+&*]+/, '');
-    });
+export function parseSchemaString(schema: string): Pick<TableSchema, 'primaryKey' | 'indexes'> {
+  const [primaryKey, ...indexes] = schema.split(',').map(s => s.trim());
+
+  return {
+    primaryKey: parseIndex(primaryKey, true),
+    indexes: indexes
+      .filter(s => s.length > 0)
+      .map(s => parseIndex(s, false))
+  };
 }
 
 /**
- * Compare two snapshots and return differences
+ * Parse one entry of a schema string
  */
-export function compareSnapshots(
-  oldSnapshot: SchemaSnapshot,
-  newSnapshot: SchemaSnapshot
-): {
+function parseIndex(source: string, isPrimaryKey: boolean): IndexSpec {
+  // Same prefix handling as Dexie: markers are stripped wherever they appear
+  const name = source.replace(/([&*]|\+\+)/g, '');
+  const compound = name.startsWith('[') || name.endsWith(']');
+  let keyPath: string | string[] | null = name || null;
+
+  if (compound) {
+    const match = name.match(/^\[([^[\]]+)\]$/);
+    const members = match ? match[1].split('+') : [];
+    if (members.length === 0 || members.some(member => member.trim().length === 0)) {
+      throw new Error(`Invalid compound index '${source}'`);
+    }
+    keyPath = members;
+  }
+
+  return normalizeIndex({
+    name,
+    keyPath,
+    compound,
+    unique: source.includes('&'),
+    multiEntry: source.includes('*'),
+    autoIncrement: source.includes('++')
+  }, isPrimaryKey);
+}
+
+/**
+ * Convert an index as Dexie describes it (declared, or read from the database)
+ */
+function fromDexieIndex(index: DexieIndexSpec, isPrimaryKey: boolean): IndexSpec {
+  return normalizeIndex({
+    name: index.name,
+    keyPath: index.keyPath ?? null,
+    compound: !!index.compound,
+    unique: !!index.unique,
+    multiEntry: !!index.multi,
+    autoIncrement: !!index.auto
+  }, isPrimaryKey);
+}
+
+/**
+ * Give parsed and Dexie-reported indexes the same shape
+ */
+function normalizeIndex(index: Omit<IndexSpec, 'outbound'>, isPrimaryKey: boolean): IndexSpec {
+  // Dexie reports an outbound key read from the database with an empty key path
+  const keyPath = index.keyPath || null;
+
+  return {
+    name: index.name,
+    keyPath,
+    compound: index.compound,
+    unique: isPrimaryKey || index.unique,
+    multiEntry: !isPrimaryKey && index.multiEntry,
+    autoIncrement: isPrimaryKey && index.autoIncrement,
+    outbound: isPrimaryKey && keyPath === null
+  };
+}
+
+/**
+ * Whether two indexes have the same key path and modifiers
+ */
+export function indexSpecsEqual(a: IndexSpec, b: IndexSpec): boolean {
+  return a.name === b.name &&
+    JSON.stringify(a.keyPath) === JSON.stringify(b.keyPath) &&
+    a.compound === b.compound &&
+    a.unique === b.unique &&
+    a.multiEntry === b.multiEntry &&
+    a.autoIncrement === b.autoIncrement &&
+    a.outbound === b.outbound;
+}
+
+/**
+ * Render an index back in schema-string syntax, e.g. `&email` or `++id`
+ */
+export function formatIndexSpec(index: IndexSpec, isPrimaryKey = false): string {
+  if (isPrimaryKey) {
+    if (index.outbound) {
+      return index.autoIncrement ? '++' : '(outbound)';
+    }
+    return `${index.autoIncrement ? '++' : ''}${index.name}`;
+  }
+  return `${index.unique ? '&' : ''}${index.multiEntry ? '*' : ''}${index.name}`;
+}
+
+/**
+ * Differences between two snapshots
+ */
+export interface SnapshotDiff {
+  /** Tables only in the new snapshot */
   added: string[];
+  /** Tables only in the old snapshot */
   removed: string[];
+  /** Tables in both whose primary key or indexes differ */
   modified: string[];
-} {
+  /** What changed in each modified table */
+  changes: Record<string, TableDiff>;
+}
+
+/**
+ * Changes to one table between two snapshots
+ */
+export interface TableDiff {
+  /** Set if the primary key changed */
+  primaryKey?: IndexChange;
+  /** Indexes only in the new snapshot */
+  addedIndexes: IndexSpec[];
+  /** Indexes only in the old snapshot */
+  removedIndexes: IndexSpec[];
+  /** Indexes in both whose key path or flags differ */
+  changedIndexes: IndexChange[];
+}
+
+/**
+ * An index (or primary key) that exists on both sides but differs
+ */
+export interface IndexChange {
+  from: IndexSpec;
+  to: IndexSpec;
+  /** The attributes that differ */
+  attributes: Array<Exclude<keyof IndexSpec, 'name'>>;
+}
+
+/**
+ * Output formats of formatSnapshotDiff
+ */
+export type SnapshotDiffFormat = 'text' | 'markdown' | 'json';
+
+const INDEX_ATTRIBUTES: Array<Exclude<keyof IndexSpec, 'name'>> = [
+  'keyPath',
+  'compound',
+  'unique',
+  'multiEntry',
+  'autoIncrement',
+  'outbound'
+];
+
+/**
+ * Compare two snapshots table by table and index by index
+ *
+ * Indexes are matched by name, so neither table nor index order matters.
+ */
+export function compareSnapshots(
+  oldSnapshot: SchemaSnapshot,
+  newSnapshot: SchemaSnapshot
+): SnapshotDiff {
   const oldTables = new Set(Object.keys(oldSnapshot.tables));
   const newTables = new Set(Object.keys(newSnapshot.tables));
   
   const added: string[] = [];
   const removed: string[] = [];
   const modified: string[] = [];
+  const changes: Record<string, TableDiff> = {};
   
   // Find added tables
   for (const table of newTables) {
@@ -242,14 +607,247 @@ export function compareSnapshots(
   // Find modified tables
   for (const table of newTables) {
     if (oldTables.has(table)) {
-      const oldSchema = JSON.stringify(oldSnapshot.tables[table]);
-      const newSchema = JSON.stringify(newSnapshot.tables[table]);
+      const diff = diffTables(oldSnapshot.tables[table], newSnapshot.tables[table]);
       
-      if (oldSchema !== newSchema) {
+      if (diff) {
         modified.push(table);
+        changes[table] = diff;
       }
     }
   }
   
-  return { added, removed, modified };
+  return { added, removed, modified, changes };
+}
+
+/**
+ * Diff two versions of a table, or return undefined if they match
+ */
+function diffTables(oldTable: TableSchema, newTable: TableSchema): TableDiff | undefined {
+  const oldIndexes = new Map(oldTable.indexes.map(index => [index.name, index]));
+  const newIndexes = new Map(newTable.indexes.map(index => [index.name, index]));
+  const changedIndexes: IndexChange[] = [];
+
+  for (const [name, index] of newIndexes) {
+    const oldIndex = oldIndexes.get(name);
+    if (oldIndex && !indexSpecsEqual(oldIndex, index)) {
+      changedIndexes.push(diffIndexes(oldIndex, index));
+    }
+  }
+
+  const diff: TableDiff = {
+    addedIndexes: newTable.indexes.filter(index => !oldIndexes.has(index.name)),
+    removedIndexes: oldTable.indexes.filter(index => !newIndexes.has(index.name)),
+    changedIndexes
+  };
+  if (!indexSpecsEqual(oldTable.primaryKey, newTable.primaryKey)) {
+    diff.primaryKey = diffIndexes(oldTable.primaryKey, newTable.primaryKey);
+  }
+
+  const changed = diff.primaryKey !== undefined ||
+    diff.addedIndexes.length + diff.removedIndexes.length + diff.changedIndexes.length > 0;
+
+  return changed ? diff : undefined;
+}
+
+function diffIndexes(from: IndexSpec, to: IndexSpec): IndexChange {
+  return {
+    from,
+    to,
+    attributes: INDEX_ATTRIBUTES.filter(key => JSON.stringify(from[key]) !== JSON.stringify(to[key]))
+  };
+}
+
+/**
+ * Describe the changes to one table, one line each
+ */
+export function formatTableDiff(diff: TableDiff): string[] {
+  const lines: string[] = [];
+
+  if (diff.primaryKey) {
+    lines.push(
+      `primary key '${formatIndexSpec(diff.primaryKey.from, true)}' → ` +
+      `'${formatIndexSpec(diff.primaryKey.to, true)}'`
+    );
+  }
+  diff.addedIndexes.forEach(index => lines.push(`added index '${formatIndexSpec(index)}'`));
+  diff.removedIndexes.forEach(index => lines.push(`removed index '${formatIndexSpec(index)}'`));
+  diff.changedIndexes.forEach(change => lines.push(
+    `changed index '${formatIndexSpec(change.from)}' → '${formatIndexSpec(change.to)}' ` +
+    `(${change.attributes.join(', ')})`
+  ));
+
+  return lines;
+}
+
+/**
+ * Render a snapshot diff as text, a markdown table (for pull request
+ * comments) or JSON
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff, format: SnapshotDiffFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(diff, null, 2);
+  }
+
+  const rows: Array<[string, string]> = [
+    ...diff.added.map((table): [string, string] => [table, 'added table']),
+    ...diff.removed.map((table): [string, string] => [table, 'removed table'])
+  ];
+  for (const table of diff.modified) {
+    formatTableDiff(diff.changes[table]).forEach(line => rows.push([table, line]));
+  }
+
+  if (format === 'markdown') {
+    if (rows.length === 0) {
+      return '_No schema changes_';
+    }
+    return [
+      '| Table | Change |',
+      '| --- | --- |',
+      // Quotes become code spans; pipes would end the cell
+      ...rows.map(([table, change]) =>
+        `| \`${table}\` | ${change.replace(/'([^']*)'/g, '`$1`').replace(/\|/g, '\\|')} |`
+      )
+    ].join('\n');
+  }
+
+  if (rows.length === 0) {
+    return 'No schema changes';
+  }
+  return rows.map(([table, change]) => `${table}: ${change}`).join('\n');
+}
+
+/**
+ * Diff a saved snapshot against the schema the migrations produce
+ *
+ * "Missing" means declared by the migrations but absent from the snapshot;
+ * "unexpected" means the other way round, as in validateSchema.
+ */
+export async function detectSchemaDrift(
+  snapshot: SchemaSnapshot,
+  migrations: Migration[]
+): Promise<SchemaDrift> {
+  const current = await createSnapshotFromMigrations(migrations);
+  const { added, removed, changes } = compareSnapshots(snapshot, current);
+  const tableChanges: Record<string, string[]> = {};
+
+  // The snapshot is the old side, so added indexes are missing from it
+  for (const [table, diff] of Object.entries(changes)) {
+    const lines: string[] = [];
+
+    if (diff.primaryKey) {
+      lines.push(
+        `primary key '${formatIndexSpec(diff.primaryKey.to, true)}', ` +
+        `snapshot has '${formatIndexSpec(diff.primaryKey.from, true)}'`
+      );
+    }
+    diff.addedIndexes.forEach(index => lines.push(`missing index '${index.name}'`));
+    diff.changedIndexes.forEach(change => lines.push(
+      `index '${formatIndexSpec(change.to)}', snapshot has '${formatIndexSpec(change.from)}'`
+    ));
+    diff.removedIndexes.forEach(index => lines.push(`unexpected index '${index.name}'`));
+
+    tableChanges[table] = lines;
+  }
+
+  const drifted = added.length > 0 ||
+    removed.length > 0 ||
+    Object.keys(tableChanges).length > 0 ||
+    snapshot.lastMigrationId !== current.lastMigrationId;
+
+  return {
+    drifted,
+    snapshotMigrationId: snapshot.lastMigrationId,
+    currentMigrationId: current.lastMigrationId,
+    missingTables: added,
+    unexpectedTables: removed,
+    tableChanges
+  };
+}
+
+/**
+ * Reasons a drifted snapshot must not be regenerated automatically
+ *
+ * Regenerating is only safe when the drift comes from new, valid migrations
+ * after the snapshot. An edited or deleted migration that the snapshot already
+ * covers has likely been applied to real databases, so it needs a human
+ * decision. Returns an empty list when the snapshot can be regenerated.
+ */
+export async function findSnapshotConflicts(
+  snapshot: SchemaSnapshot,
+  migrations: Migration[]
+): Promise<string[]> {
+  try {
+    validateMigrations(migrations);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const byId = new Map(migrations.map(m => [m.id, m]));
+  const deleted = snapshot.migrations.filter(m => !byId.has(m.id));
+  if (deleted.length > 0) {
+    return deleted.map(m => `migration ${m.id} is in the snapshot but no longer exists`);
+  }
+
+  const snapshotted = migrations.filter(m => m.id <= snapshot.lastMigrationId);
+  const drift = await detectSchemaDrift(snapshot, snapshotted);
+
+  if (drift.currentMigrationId !== snapshot.lastMigrationId) {
+    return [`migration ${snapshot.lastMigrationId} is in the snapshot but no longer exists`];
+  }
+
+  const edited = snapshot.migrations.filter(
+    m => computeMigrationChecksum(byId.get(m.id)!, SNAPSHOT_CHECKSUM_OPTIONS) !== m.checksum
+  );
+
+  return [
+    ...edited.map(m => `changed after the snapshot: migration ${m.id} ${m.name}`),
+    ...formatSchemaDrift(drift).map(line => `changed after the snapshot: ${line}`)
+  ];
+}
+
+/**
+ * Compare the migrations a snapshot covers with the IDs of migration files
+ *
+ * For callers that only see file names, like the bundler plugins. `added`
+ * are IDs the snapshot doesn't cover, `removed` are snapshotted IDs without
+ * a file. Format 1 snapshots upgraded without migrations only know their last
+ * migration ID, so IDs up to it count as covered and none as removed.
+ */
+export function compareSnapshotMigrations(
+  snapshot: SchemaSnapshot,
+  migrationIds: number[]
+): { added: number[]; removed: number[] } {
+  const ids = new Set(migrationIds);
+
+  if (snapshot.migrations.length === 0 && snapshot.lastMigrationId > 0) {
+    return {
+      added: [...ids].filter(id => id > snapshot.lastMigrationId).sort((a, b) => a - b),
+      removed: []
+    };
+  }
+
+  const snapshotIds = new Set(snapshot.migrations.map(m => m.id));
+
+  return {
+    added: [...ids].filter(id => !snapshotIds.has(id)).sort((a, b) => a - b),
+    removed: [...snapshotIds].filter(id => !ids.has(id)).sort((a, b) => a - b)
+  };
+}
+
+/**
+ * Render schema drift as one line per difference
+ */
+export function formatSchemaDrift(drift: SchemaDrift): string[] {
+  const lines: string[] = [];
+
+  if (drift.snapshotMigrationId !== drift.currentMigrationId) {
+    lines.push(`snapshot is at migration ${drift.snapshotMigrationId}, migrations go up to ${drift.currentMigrationId}`);
+  }
+  drift.missingTables.forEach(table => lines.push(`${table}: missing table`));
+  drift.unexpectedTables.forEach(table => lines.push(`${table}: unexpected table`));
+  for (const [table, changes] of Object.entries(drift.tableChanges)) {
+    changes.forEach(change => lines.push(`${table}: ${change}`));
+  }
+
+  return lines;
 }
@@ -34,6 +34,11 @@ export interface SquashResult {
  * - Improving performance for new installations
  * - Cleaning up migration history
  * 
+ * The base migration takes the ID of the last squashed migration and lists
+ * every squashed ID in `replaces`, so its database version never drops below
+ * that of installed databases and those that applied all the originals treat
+ * it as applied.
+ * 
  * Note: This only merges schema changes. Data transformations (up functions)
  * are not preserved unless preserveUpFunctions is true.
  */
@@ -57,11 +62,14 @@ export function squashMigrations(
   // Compute the final schema from squashed migrations
   const finalSchema = computeExpectedSchema(toSquash);
   
-  // Create the base migration
+  // Create the base migration, carrying over IDs replaced by earlier squashes
+  const replaces = [...new Set(toSquash.flatMap(m => [...(m.replaces ?? []), m.id]))]
+    .sort((a, b) => a - b);
   const baseMigration: Migration = {
-    id: 1,
+    id: toSquash[toSquash.length - 1].id,
     name: baseName,
-    stores: finalSchema
+    stores: finalSchema,
+    replaces
   };
   
   // Optionally preserve up functions (warning: can be problematic)
@@ -116,6 +124,10 @@ export function generateSquashedMigrationFile(migration: Migration): string {
         .join(',\n')
     : '';
   
+  const replacesContent = migration.replaces
+    ? `\n  replaces: [${migration.replaces.join(', ')}],`
+    : '';
+  
   let upFunction = '';
   if (migration.up) {
     upFunction = `
@@ -139,7 +151,7 @@ export function generateSquashedMigrationFile(migration: Migration): string {
  */
 export default {
   id: ${migration.id},
-  name: '${migration.name}',
+  name: '${migration.name}',${replacesContent}
   
   stores: {
 ${storesContent}
@@ -0,0 +1,236 @@
+/**
+ * Test harness for migrations
+ *
+ * Runs migrations against an isolated in-memory database (a private
+ * fake-indexeddb factory per harness), so a test can migrate to an older
+ * migration, seed fixture rows with the schema as of that migration, migrate
+ * to the latest one and assert on the result.
+ *
+ * ```typescript
+ * import { MigrationTestHarness } from '@dexie-kit/migrate/testing';
+ *
+ * const harness = new MigrationTestHarness(migrations);
+ * await harness.migrateTo(3);
+ * await harness.seed('users', [{ first: 'Ada', last: 'Lovelace' }]);
+ * await harness.migrateToLatest();
+ * await harness.expectRowShape('users', { displayName: 'string' });
+ * await harness.destroy();
+ * ```
+ */
+
+import Dexie from 'dexie';
+import type { DexieOptions, IndexableTypeArrayReadonly } from 'dexie';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import type { Migration, MigrationOptions, MigrationResult, StoresMap } from './types';
+import { runMigrations } from './runtime';
+import { rollbackMigrations } from './rollback';
+import { computeExpectedSchema, createSnapshot, validateSchema } from './snapshot';
+
+export {
+  verifyMigrations,
+  formatVerificationReport,
+  verifyUpgradePaths,
+  formatUpgradePathReport
+} from './verify';
+export type {
+  VerificationReport,
+  MigrationVerification,
+  VerificationCheck,
+  VerificationCheckName,
+  VerifyOptions,
+  UpgradePathReport,
+  UpgradePathResult
+} from './verify';
+
+/**
+ * Options for the migration test harness
+ */
+export interface MigrationTestHarnessOptions {
+  /** Database name (defaults to a unique name) */
+  dbName?: string;
+  /** Options passed to runMigrations */
+  migrationOptions?: Omit<MigrationOptions, 'dexieOptions' | 'dryRun'>;
+}
+
+/**
+ * Expected type of a field in expectRowShape: a `typeof` result, or
+ * 'array', 'null' or 'date'
+ */
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'boolean'
+  | 'object'
+  | 'undefined'
+  | 'array'
+  | 'null'
+  | 'date';
+
+/**
+ * Thrown by the harness assertion helpers
+ */
+export class MigrationAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationAssertionError';
+  }
+}
+
+let harnessCount = 0;
+
+/**
+ * Migrates an isolated database step by step for tests
+ */
+export class MigrationTestHarness {
+  readonly dbName: string;
+  private migrations: Migration[];
+  private options: MigrationTestHarnessOptions;
+  private dexieOptions: DexieOptions;
+  private result: MigrationResult | null = null;
+  private currentId = 0;
+
+  constructor(migrations: Migration[], options: MigrationTestHarnessOptions = {}) {
+    this.migrations = [...migrations].sort((a, b) => a.id - b.id);
+    this.options = options;
+    this.dbName = options.dbName ?? `dexie-migrate-test-${++harnessCount}`;
+    // A factory of its own keeps harnesses from seeing each other's databases
+    this.dexieOptions = { indexedDB: new IDBFactory(), IDBKeyRange };
+  }
+
+  /**
+   * The open database (after migrateTo or migrateToLatest)
+   */
+  get db(): Dexie {
+    if (!this.result) {
+      throw new Error('[dexie-migrate] Call migrateTo() or migrateToLatest() before using the database');
+    }
+    return this.result.db;
+  }
+
+  /**
+   * ID of the last migration applied (0 before migrating)
+   */
+  get migrationId(): number {
+    return this.currentId;
+  }
+
+  /**
+   * Migrate up (or roll back with down()) to the given migration
+   */
+  async migrateTo(id: number): Promise<MigrationResult> {
+    if (!this.migrations.some(m => m.id === id)) {
+      throw new Error(`[dexie-migrate] No migration with ID ${id}`);
+    }
+
+    this.close();
+
+    if (id < this.currentId) {
+      await rollbackMigrations(this.dbName, this.migrations, { to: id, dexieOptions: this.dexieOptions });
+    }
+
+    const result = await runMigrations(
+      this.dbName,
+      this.migrations.filter(m => m.id <= id),
+      { ...this.options.migrationOptions, dexieOptions: this.dexieOptions }
+    );
+    // Let background batch steps finish so assertions see their results
+    await result.backgroundComplete;
+
+    this.result = result;
+    this.currentId = id;
+    return result;
+  }
+
+  /**
+   * Migrate to the last migration
+   */
+  async migrateToLatest(): Promise<MigrationResult> {
+    return this.migrateTo(this.migrations[this.migrations.length - 1].id);
+  }
+
+  /**
+   * Insert fixture rows using the schema of the current migration
+   */
+  async seed(table: string, rows: unknown[], keys?: IndexableTypeArrayReadonly): Promise<void> {
+    if (keys) {
+      await this.db.table(table).bulkAdd(rows, keys);
+    } else {
+      await this.db.table(table).bulkAdd(rows);
+    }
+  }
+
+  /**
+   * Assert the database schema matches `expected` exactly
+   *
+   * Defaults to the schema the applied migrations describe.
+   */
+  async expectSchema(expected?: StoresMap): Promise<void> {
+    const applied = this.migrations.filter(m => m.id <= this.currentId);
+    const snapshot = await createSnapshot(this.db, applied);
+    const validation = validateSchema(snapshot, expected ?? computeExpectedSchema(applied));
+    const problems = [...validation.errors, ...validation.warnings];
+
+    if (problems.length > 0) {
+      throw new MigrationAssertionError(`Schema mismatch:\n  ${problems.join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Assert a table holds exactly `count` rows
+   */
+  async expectRowCount(table: string, count: number): Promise<void> {
+    const actual = await this.db.table(table).count();
+    if (actual !== count) {
+      throw new MigrationAssertionError(`Expected ${count} rows in ${table}, found ${actual}`);
+    }
+  }
+
+  /**
+   * Assert every row of a table has the given field types
+   */
+  async expectRowShape(table: string, shape: Record<string, FieldType>): Promise<void> {
+    const rows = await this.db.table(table).toArray();
+    const problems: string[] = [];
+
+    rows.forEach((row, index) => {
+      for (const [field, expectedType] of Object.entries(shape)) {
+        const actualType = fieldType(row[field]);
+        if (actualType !== expectedType) {
+          problems.push(`row ${index}: ${field} is ${actualType}, expected ${expectedType}`);
+        }
+      }
+    });
+
+    if (problems.length > 0) {
+      throw new MigrationAssertionError(`Unexpected row shape in ${table}:\n  ${problems.join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.result?.db.close();
+    this.result = null;
+  }
+
+  /**
+   * Close and delete the database
+   */
+  async destroy(): Promise<void> {
+    this.close();
+    this.currentId = 0;
+    await new Dexie(this.dbName, this.dexieOptions).delete();
+  }
+}
+
+/**
+ * Describe a value in FieldType terms
+ */
+function fieldType(value: unknown): FieldType | 'symbol' | 'function' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
@@ -1,4 +1,4 @@
-import type { Transaction } from 'dexie';
+import type { DexieOptions, IndexableType, Transaction } from 'dexie';
 
 /**
  * Schema definition for tables
@@ -7,6 +7,24 @@ import type { Transaction } from 'dexie';
  */
 export type StoresMap = Record<string, string | null>;
 
+/**
+ * Cursor-based batch step for data migrations over large tables
+ *
+ * Rows are walked in primary key order, one transaction per batch. The last
+ * processed key is checkpointed in `_dexie_migrations` together with the batch,
+ * so an interrupted run resumes from the checkpoint instead of starting over.
+ */
+export interface BatchStep {
+  /** Table to walk */
+  table: string;
+
+  /** Number of rows per batch (default 1000) */
+  size?: number;
+
+  /** Process one batch of rows; `keys` holds the matching primary keys */
+  process: (rows: any[], tx: Transaction, keys: IndexableType[]) => Promise<void>;
+}
+
 /**
  * Migration definition interface
  */
@@ -23,14 +41,26 @@ export interface Migration {
   /** Optional data transformation function */
   up?: (tx: Transaction) => Promise<void>;
   
-  /** Optional rollback function (test-only, never runs in production) */
+  /** Optional rollback function, only run by rollbackMigrations (tests) */
   down?: (tx: Transaction) => Promise<void>;
   
+  /** Optional checkpointed batch step, runs after the schema upgrade */
+  batch?: BatchStep;
+  
+  /** Run the batch step in the background after the database has opened */
+  background?: boolean;
+  
   /** Optional validation after migration */
   validateAfter?: (tx: Transaction) => Promise<boolean>;
   
-  /** Optional timeout in milliseconds (default 30s) */
+  /** Optional timeout in milliseconds for up() and validateAfter() (default 30s, 0 disables) */
   timeout?: number;
+  
+  /**
+   * IDs of the migrations this one was squashed from. Databases that applied
+   * all of them treat this migration as applied.
+   */
+  replaces?: number[];
 }
 
 /**
@@ -51,6 +81,61 @@ export interface MigrationOptions {
   
   /** Completion callback */
   onComplete?: () => void;
+  
+  /** Batch progress callback (rows processed so far for the migration) */
+  onBatchProgress?: (migration: Migration, processed: number) => void;
+  
+  /** How background batches are scheduled (default 'idle', falls back to 'interval') */
+  backgroundScheduler?: 'idle' | 'interval';
+  
+  /** Delay between background batches in milliseconds (default 50) */
+  backgroundInterval?: number;
+  
+  /** Called when a background migration has finished its batch step */
+  onBackgroundComplete?: (migration: Migration) => void;
+  
+  /**
+   * What to do when an applied migration's checksum no longer matches its
+   * definition (default 'warn')
+   */
+  checksumValidation?: 'error' | 'warn' | 'off';
+
+  /**
+   * Include the source of up(), validateAfter() and batch steps in checksums
+   * (default false). Only enable this if the shipped code of applied
+   * migrations never changes, e.g. the bundler or its target stays the same.
+   */
+  checksumFunctions?: boolean;
+  
+  /** Called when the upgrade is blocked by a connection open in another tab */
+  onBlocked?: (event: IDBVersionChangeEvent) => void;
+  
+  /**
+   * Fail with UpgradeBlockedError if the upgrade is still blocked after this
+   * many milliseconds (default: wait indefinitely)
+   */
+  blockedTimeout?: number;
+  
+  /**
+   * Called when another tab upgrades the database while the returned db is open,
+   * e.g. to show a "reload to update" banner
+   */
+  onVersionChange?: (event: IDBVersionChangeEvent) => void;
+  
+  /** Close the returned db on versionchange so other tabs can upgrade (default true) */
+  closeOnVersionChange?: boolean;
+  
+  /**
+   * Options passed to the Dexie constructor, e.g. `{ indexedDB, IDBKeyRange }`
+   * to run against a separate fake-indexeddb factory
+   */
+  dexieOptions?: DexieOptions;
+  
+  /**
+   * Archived originals of squashed migrations, replayed for databases that
+   * applied only part of a squashed range
+   */
+  replacedMigrations?: Migration[];
 }
 
 /**
@@ -68,8 +153,26 @@ export interface MigrationResult {
   
   /** Final database version */
   finalVersion: number;
+  
+  /** IDs of background migrations still running (updated as they finish) */
+  pendingBackgroundMigrations: number[];
+  
+  /** Resolves when every background migration has finished */
+  backgroundComplete: Promise<void>;
+  
+  /** Whether this tab ran the migrations or reused another tab's run */
+  ranBy: 'this-tab' | 'other-tab';
+  
+  /** Tab that ran the migrations (set by runMigrationsWithCoordination) */
+  leaderTabId?: string;
 }
 
+/**
+ * Tracking state of a migration
+ * Records written before batch support have no status and count as completed.
+ */
+export type MigrationStatus = 'in_progress' | 'completed';
+
 /**
  * Internal migration tracking record
  */
@@ -77,4 +180,13 @@ export interface MigrationRecord {
   id: number;
   name: string;
   appliedAt: number;
+  status?: MigrationStatus;
+  /** Checksum of the migration definition when it was applied */
+  checksum?: string;
+  /** Last primary key processed by the batch step */
+  checkpoint?: IndexableType;
+  /** Number of rows processed by the batch step */
+  processed?: number;
+  /** Squashed migration that recorded this replaced ID when it was applied */
+  replacedBy?: number;
 }
@@ -0,0 +1,388 @@
+/**
+ * Round-trip and upgrade-path verifiers for migrations
+ *
+ * verifyMigrations applies migrations one at a time to a fresh fake-indexeddb
+ * database and checks each step: the migration applies, the resulting schema
+ * matches the cumulative `stores`, validateAfter() passes and, where down()
+ * exists, rolling back and re-applying both succeed.
+ *
+ * verifyUpgradePaths checks that users upgrading from any earlier migration
+ * end up with the same schema as a fresh install.
+ */
+
+import Dexie from 'dexie';
+import type { DexieOptions } from 'dexie';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import type { Migration } from './types';
+import { MigrationValidationError } from './errors';
+import { runMigrations } from './runtime';
+import { rollbackMigrations } from './rollback';
+import { compareSnapshots, computeExpectedSchema, createSnapshot, formatTableDiff, validateSchema } from './snapshot';
+import type { SchemaSnapshot, SnapshotDiff } from './snapshot';
+
+/**
+ * Checks run for each migration
+ */
+export type VerificationCheckName = 'apply' | 'validateAfter' | 'schema' | 'rollback' | 'reapply';
+
+/**
+ * Outcome of a single check
+ */
+export interface VerificationCheck {
+  name: VerificationCheckName;
+  passed: boolean;
+  /** Why the check failed, or warnings for a passing schema check */
+  messages: string[];
+}
+
+/**
+ * Checks for one migration
+ */
+export interface MigrationVerification {
+  id: number;
+  name: string;
+  /** Not verified because an earlier migration failed to apply */
+  skipped: boolean;
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+/**
+ * Result of verifyMigrations
+ */
+export interface VerificationReport {
+  passed: boolean;
+  migrations: MigrationVerification[];
+}
+
+/**
+ * Options for verifyMigrations
+ */
+export interface VerifyOptions {
+  /** Database name used for the in-memory database */
+  dbName?: string;
+}
+
+/**
+ * Apply migrations from scratch and verify every step
+ */
+export async function verifyMigrations(
+  migrations: Migration[],
+  options: VerifyOptions = {}
+): Promise<VerificationReport> {
+  const dbName = options.dbName ?? 'dexie-migrate-verify';
+  const dexieOptions: DexieOptions = { indexedDB: new IDBFactory(), IDBKeyRange };
+  const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+  const results: MigrationVerification[] = [];
+  let blocked = false;
+
+  for (let i = 0; i < sortedMigrations.length; i++) {
+    const migration = sortedMigrations[i];
+    const applied = sortedMigrations.slice(0, i + 1);
+    const previousId = i > 0 ? sortedMigrations[i - 1].id : 0;
+
+    if (blocked) {
+      results.push({ id: migration.id, name: migration.name, skipped: true, passed: false, checks: [] });
+      continue;
+    }
+
+    const checks: VerificationCheck[] = [];
+    const apply = await tryApply(dbName, applied, dexieOptions, migration);
+    checks.push(...apply.checks);
+
+    if (apply.db) {
+      apply.db.close();
+      checks.push(await checkSchema(dbName, applied, dexieOptions));
+
+      if (migration.down) {
+        checks.push(...await checkRoundTrip(dbName, applied, previousId, dexieOptions));
+      }
+    } else {
+      // Later migrations build on this one
+      blocked = true;
+    }
+
+    results.push({
+      id: migration.id,
+      name: migration.name,
+      skipped: false,
+      passed: checks.every(c => c.passed),
+      checks
+    });
+  }
+
+  await new Dexie(dbName, dexieOptions).delete();
+
+  return {
+    passed: results.every(r => r.passed),
+    migrations: results
+  };
+}
+
+/**
+ * Apply the migrations, reporting apply and validateAfter separately
+ */
+async function tryApply(
+  dbName: string,
+  migrations: Migration[],
+  dexieOptions: DexieOptions,
+  migration: Migration
+): Promise<{ db?: Dexie; checks: VerificationCheck[] }> {
+  try {
+    const result = await runMigrations(dbName, migrations, { dexieOptions, checksumValidation: 'off' });
+    await result.backgroundComplete;
+
+    const checks: VerificationCheck[] = [{ name: 'apply', passed: true, messages: [] }];
+    if (migration.validateAfter) {
+      checks.push({ name: 'validateAfter', passed: true, messages: [] });
+    }
+    return { db: result.db, checks };
+  } catch (error) {
+    if (error instanceof MigrationValidationError) {
+      return {
+        checks: [
+          { name: 'apply', passed: true, messages: [] },
+          { name: 'validateAfter', passed: false, messages: [error.message] }
+        ]
+      };
+    }
+    return { checks: [{ name: 'apply', passed: false, messages: [errorMessage(error)] }] };
+  }
+}
+
+/**
+ * Compare the schema on disk with the cumulative stores of the applied migrations
+ */
+async function checkSchema(
+  dbName: string,
+  applied: Migration[],
+  dexieOptions: DexieOptions
+): Promise<VerificationCheck> {
+  const snapshot = await readSnapshot(dbName, applied, dexieOptions);
+  const validation = validateSchema(snapshot, computeExpectedSchema(applied));
+
+  return {
+    name: 'schema',
+    passed: validation.valid,
+    messages: [...validation.errors, ...validation.warnings]
+  };
+}
+
+/**
+ * Roll the last migration back and apply it again
+ */
+async function checkRoundTrip(
+  dbName: string,
+  applied: Migration[],
+  previousId: number,
+  dexieOptions: DexieOptions
+): Promise<VerificationCheck[]> {
+  try {
+    await rollbackMigrations(dbName, applied, { to: previousId, dexieOptions });
+  } catch (error) {
+    return [{ name: 'rollback', passed: false, messages: [errorMessage(error)] }];
+  }
+
+  try {
+    const result = await runMigrations(dbName, applied, { dexieOptions, checksumValidation: 'off' });
+    await result.backgroundComplete;
+    result.db.close();
+  } catch (error) {
+    return [
+      { name: 'rollback', passed: true, messages: [] },
+      { name: 'reapply', passed: false, messages: [errorMessage(error)] }
+    ];
+  }
+
+  return [
+    { name: 'rollback', passed: true, messages: [] },
+    { name: 'reapply', passed: true, messages: [] }
+  ];
+}
+
+/**
+ * End state of upgrading from one earlier migration
+ */
+export interface UpgradePathResult {
+  /** ID of the last migration applied before upgrading */
+  from: number;
+  passed: boolean;
+  /** Error thrown while creating the old database or upgrading it */
+  error?: string;
+  /** Tables that differ from a fresh install */
+  differences: SnapshotDiff;
+  /** Database version after upgrading, if it differs from a fresh install */
+  version?: number;
+}
+
+/**
+ * Result of verifyUpgradePaths
+ */
+export interface UpgradePathReport {
+  passed: boolean;
+  /** Schema of a fresh install of every migration */
+  fresh: SchemaSnapshot;
+  /** One entry per start point, oldest first */
+  paths: UpgradePathResult[];
+}
+
+/**
+ * Upgrade from every earlier migration and compare with a fresh install
+ *
+ * For each prefix of the migration list, a database is created at that
+ * migration and then migrated with the full list. Schemas are read back from
+ * the database itself rather than from Dexie's declared schema.
+ */
+export async function verifyUpgradePaths(
+  migrations: Migration[],
+  options: VerifyOptions = {}
+): Promise<UpgradePathReport> {
+  const dbName = options.dbName ?? 'dexie-migrate-verify';
+  const dexieOptions: DexieOptions = { indexedDB: new IDBFactory(), IDBKeyRange };
+  const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+
+  const freshName = `${dbName}-fresh`;
+  await migrateAndClose(freshName, sortedMigrations, dexieOptions);
+  const fresh = await readSnapshot(freshName, sortedMigrations, dexieOptions);
+
+  const paths: UpgradePathResult[] = [];
+
+  for (let i = 0; i < sortedMigrations.length - 1; i++) {
+    const from = sortedMigrations[i].id;
+    const pathName = `${dbName}-from-${from}`;
+    const noDifferences: SnapshotDiff = { added: [], removed: [], modified: [], changes: {} };
+
+    try {
+      await migrateAndClose(pathName, sortedMigrations.slice(0, i + 1), dexieOptions);
+      await migrateAndClose(pathName, sortedMigrations, dexieOptions);
+
+      const upgraded = await readSnapshot(pathName, sortedMigrations, dexieOptions);
+      const differences = compareSnapshots(fresh, upgraded);
+      const sameVersion = upgraded.version === fresh.version;
+      const passed = sameVersion &&
+        differences.added.length + differences.removed.length + differences.modified.length === 0;
+
+      paths.push({
+        from,
+        passed,
+        differences,
+        ...(!sameVersion && { version: upgraded.version })
+      });
+    } catch (error) {
+      paths.push({ from, passed: false, error: errorMessage(error), differences: noDifferences });
+    } finally {
+      await new Dexie(pathName, dexieOptions).delete();
+    }
+  }
+
+  await new Dexie(freshName, dexieOptions).delete();
+
+  return {
+    passed: paths.every(p => p.passed),
+    fresh,
+    paths
+  };
+}
+
+/**
+ * Run migrations and close the database
+ */
+async function migrateAndClose(
+  dbName: string,
+  migrations: Migration[],
+  dexieOptions: DexieOptions
+): Promise<void> {
+  const result = await runMigrations(dbName, migrations, { dexieOptions, checksumValidation: 'off' });
+  await result.backgroundComplete;
+  result.db.close();
+}
+
+/**
+ * Snapshot the schema stored in the database (not the one Dexie declares)
+ */
+async function readSnapshot(
+  dbName: string,
+  migrations: Migration[],
+  dexieOptions: DexieOptions
+): Promise<SchemaSnapshot> {
+  const db = new Dexie(dbName, dexieOptions);
+  try {
+    await db.open();
+    return await createSnapshot(db, migrations);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Render an upgrade path report as text
+ */
+export function formatUpgradePathReport(report: UpgradePathReport): string {
+  const lines: string[] = [];
+
+  for (const result of report.paths) {
+    if (result.passed) {
+      lines.push(`✓ from ${result.from}`);
+      continue;
+    }
+
+    lines.push(`✗ from ${result.from}`);
+    if (result.error) {
+      lines.push(`    ${result.error}`);
+    }
+    if (result.version !== undefined) {
+      lines.push(`    version ${result.version}, fresh install is at ${report.fresh.version}`);
+    }
+    const { added, removed, modified, changes } = result.differences;
+    removed.forEach(t => lines.push(`    missing table: ${t}`));
+    added.forEach(t => lines.push(`    extra table: ${t}`));
+    for (const table of modified) {
+      lines.push(`    table differs: ${table}`);
+      formatTableDiff(changes[table]).forEach(line => lines.push(`        ${line}`));
+    }
+  }
+
+  const failed = report.paths.filter(p => !p.passed).length;
+  lines.push('');
+  lines.push(report.passed
+    ? `✓ All ${report.paths.length} upgrade path(s) match a fresh install`
+    : `✗ ${failed} of ${report.paths.length} upgrade path(s) diverge from a fresh install`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a verification report as text
+ */
+export function formatVerificationReport(report: VerificationReport): string {
+  const lines: string[] = [];
+
+  for (const result of report.migrations) {
+    const label = `${result.id} ${result.name}`;
+
+    if (result.skipped) {
+      lines.push(`- ${label} (skipped: an earlier migration failed)`);
+      continue;
+    }
+
+    lines.push(`${result.passed ? '✓' : '✗'} ${label}`);
+    for (const check of result.checks) {
+      lines.push(`    ${check.passed ? '✓' : '✗'} ${check.name}`);
+      for (const message of check.messages) {
+        lines.push(`        ${message}`);
+      }
+    }
+  }
+
+  const failed = report.migrations.filter(r => !r.passed).length;
+  lines.push('');
+  lines.push(report.passed
+    ? `✓ All ${report.migrations.length} migration(s) verified`
+    : `✗ ${failed} of ${report.migrations.length} migration(s) failed verification`);
+
+  return lines.join('\n');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -7,6 +7,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import type { Compiler, WebpackPluginInstance } from 'webpack';
+import { findMigrationFiles } from './loader';
+import { compareSnapshotMigrations, loadSnapshotFromFile } from './snapshot';
 
 export interface DexieMigratePluginOptions {
   /**
@@ -157,14 +159,15 @@ export class DexieMigratePlugin implements WebpackPluginInstance {
 
     if (fs.existsSync(snapshotFullPath)) {
       try {
-        const snapshot = JSON.parse(fs.readFileSync(snapshotFullPath, 'utf-8'));
-        const files = fs.readdirSync(this.migrationsPath);
-        const migrationFiles = files.filter(f => /^\d{4}_.*\.ts$/.test(f));
+        const snapshot = loadSnapshotFromFile(snapshotFullPath);
+        const ids = findMigrationFiles(this.migrationsPath).map(f => parseInt(f, 10));
+        const { added, removed } = compareSnapshotMigrations(snapshot, ids);
 
-        if (migrationFiles.length !== snapshot.version) {
+        if (added.length > 0 || removed.length > 0) {
           console.warn(
             `[dexie-migrate] Schema drift detected! ` +
-            `Expected ${snapshot.version} migrations, found ${migrationFiles.length}. ` +
+            (added.length > 0 ? `Not in the snapshot: migration ${added.join(', ')}. ` : '') +
+            (removed.length > 0 ? `In the snapshot but missing: migration ${removed.join(', ')}. ` : '') +
             `Run 'npx dexie-migrate check' for details.`
           );
         } else if (this.options.verbose) {